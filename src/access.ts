@@ -0,0 +1,133 @@
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { ToolSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { readConfig, requestDirectoryAccess, resolveDirectory } from "./config";
+import {
+	type AllowedDirectory,
+	describeAllowedDirectory,
+	expandHome,
+} from "./fs";
+
+const ToolInputSchema = ToolSchema.shape.inputSchema;
+type ToolInput = z.infer<typeof ToolInputSchema>;
+
+// Schema definitions
+export const RequestDirectoryAccessArgsSchema = z.object({
+	path: z.string().describe("Directory to request access to"),
+	mode: z
+		.enum(["read", "write"])
+		.default("read")
+		.describe("Request read-only access, or also permission to modify files"),
+	reason: z
+		.string()
+		.describe("Why access is needed; shown to the user who approves it"),
+});
+
+// Tool definitions
+export const tools = [
+	{
+		name: "fs_list_allowed_directories",
+		description:
+			"Returns the list of directories that this server is allowed to access. " +
+			"Use this to understand which directories are available before trying to access files. " +
+			"Also lists pending access requests and revoked directories.",
+		inputSchema: {
+			type: "object",
+			properties: {},
+			required: [],
+		},
+	},
+	{
+		name: "fs_request_directory_access",
+		description:
+			"Ask the user for access to a directory that is not yet allowed. The request " +
+			"is recorded as pending with the given reason; access is only granted once " +
+			"the user approves it by running `semantic-fs approve <path>`. Check " +
+			"fs_list_allowed_directories to see whether it has been approved.",
+		inputSchema: zodToJsonSchema(RequestDirectoryAccessArgsSchema) as ToolInput,
+	},
+];
+
+// Tool handlers
+export async function handleTool(
+	name: string,
+	args: Record<string, unknown> | undefined,
+	allowedDirectories: AllowedDirectory[],
+) {
+	switch (name) {
+		case "fs_list_allowed_directories": {
+			const config = await readConfig();
+			const sections = [
+				`Allowed directories:\n${allowedDirectories.map(describeAllowedDirectory).join("\n")}`,
+			];
+			if (config.pendingRequests.length > 0) {
+				sections.push(
+					`Pending access requests:\n${config.pendingRequests
+						.map(
+							(request) =>
+								`${request.path} (${request.mode}: ${request.reason})`,
+						)
+						.join("\n")}`,
+				);
+			}
+			if (config.revokedDirectories.length > 0) {
+				sections.push(
+					`Revoked directories:\n${config.revokedDirectories.join("\n")}`,
+				);
+			}
+			return {
+				content: [{ type: "text", text: sections.join("\n\n") }],
+			};
+		}
+
+		case "fs_request_directory_access": {
+			const parsed = RequestDirectoryAccessArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(
+					`Invalid arguments for request_directory_access: ${parsed.error}`,
+				);
+			}
+			const resolved = resolveDirectory(parsed.data.path);
+			const existing = allowedDirectories.find((dir) => dir.path === resolved);
+			if (
+				existing &&
+				(existing.mode === "write" || parsed.data.mode === "read")
+			) {
+				return {
+					content: [
+						{
+							type: "text",
+							text: `${resolved} is already an allowed directory`,
+						},
+					],
+				};
+			}
+			const stats = await stat(
+				path.resolve(expandHome(parsed.data.path)),
+			).catch(() => null);
+			if (!stats?.isDirectory()) {
+				throw new Error(`Not a directory: ${parsed.data.path}`);
+			}
+			await requestDirectoryAccess(
+				resolved,
+				parsed.data.mode,
+				parsed.data.reason,
+			);
+			return {
+				content: [
+					{
+						type: "text",
+						text:
+							`Access request for ${resolved} is pending. Ask the user to approve it ` +
+							`by running: semantic-fs approve ${resolved}`,
+					},
+				],
+			};
+		}
+
+		default:
+			return null;
+	}
+}
@@ -0,0 +1,122 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+	mkdir,
+	mkdtemp,
+	readFile,
+	readdir,
+	realpath,
+	rm,
+	symlink,
+	writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { strToU8, zipSync } from "fflate";
+import { extractArchive } from "./archive";
+import type { AllowedDirectory } from "./fs";
+import { pathExists } from "./transfer";
+
+let base: string;
+let data: string;
+let allowed: AllowedDirectory[];
+
+beforeAll(async () => {
+	base = await realpath(await mkdtemp(path.join(tmpdir(), "archive-")));
+	data = path.join(base, "data");
+	await mkdir(data);
+	await mkdir(path.join(base, "outside"));
+	allowed = [{ path: data, mode: "write", deny: [] }];
+});
+
+afterAll(async () => {
+	await rm(base, { recursive: true, force: true });
+});
+
+// A zip holding the given files; names are stored exactly as given
+async function makeZip(name: string, files: Record<string, string>) {
+	const zipPath = path.join(data, name);
+	await writeFile(
+		zipPath,
+		zipSync(
+			Object.fromEntries(
+				Object.entries(files).map(([entry, text]) => [entry, strToU8(text)]),
+			),
+		),
+	);
+	return zipPath;
+}
+
+async function extract(archivePath: string, destination: string) {
+	return extractArchive({ archivePath, entryName: "" }, destination, allowed);
+}
+
+describe("extractArchive", () => {
+	test("extracts files into the destination", async () => {
+		const zipPath = await makeZip("good.zip", {
+			"readme.md": "hello",
+			"docs/guide.md": "guide",
+		});
+		const destination = path.join(data, "good");
+		const result = await extract(zipPath, destination);
+		expect(result.files).toBe(2);
+		expect(
+			await readFile(path.join(destination, "docs", "guide.md"), "utf-8"),
+		).toBe("guide");
+		expect(result.created.map((root) => root.to)).toEqual([destination]);
+	});
+
+	test("refuses entries that climb out of the destination", async () => {
+		for (const name of ["../evil.txt", "docs/../../evil.txt", ".."]) {
+			const zipPath = await makeZip("slip.zip", {
+				"first.txt": "fine",
+				[name]: "evil",
+			});
+			const destination = path.join(data, "slip");
+			await expect(extract(zipPath, destination)).rejects.toThrow(
+				"would be written outside",
+			);
+			// Entries are all checked before the first is written
+			expect(await pathExists(destination)).toBe(false);
+			expect(await pathExists(path.join(data, "evil.txt"))).toBe(false);
+		}
+	});
+
+	test("refuses absolute and drive-letter names", async () => {
+		for (const name of ["/tmp/evil.txt", "C:/evil.txt", "c:evil.txt"]) {
+			const zipPath = await makeZip("absolute.zip", { [name]: "evil" });
+			await expect(
+				extract(zipPath, path.join(data, "absolute")),
+			).rejects.toThrow("would be written outside");
+		}
+	});
+
+	test("refuses to write through a symlink leading out", async () => {
+		const destination = path.join(data, "linked");
+		await mkdir(destination);
+		await symlink(path.join(base, "outside"), path.join(destination, "out"));
+		const zipPath = await makeZip("through-link.zip", {
+			"out/evil.txt": "evil",
+		});
+		await expect(extract(zipPath, destination)).rejects.toThrow(
+			"Access denied",
+		);
+		expect(await readdir(path.join(base, "outside"))).toEqual([]);
+	});
+
+	test("never replaces an existing file", async () => {
+		const destination = path.join(data, "existing");
+		await mkdir(destination);
+		await writeFile(path.join(destination, "keep.txt"), "mine");
+		const zipPath = await makeZip("replace.zip", {
+			"new.txt": "new",
+			"keep.txt": "theirs",
+		});
+		await expect(extract(zipPath, destination)).rejects.toThrow(
+			"already exists",
+		);
+		expect(await readFile(path.join(destination, "keep.txt"), "utf-8")).toBe(
+			"mine",
+		);
+		expect(await pathExists(path.join(destination, "new.txt"))).toBe(false);
+	});
+});
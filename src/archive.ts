@@ -0,0 +1,765 @@
+import {
+	type FileHandle,
+	mkdir,
+	open,
+	rm,
+	stat,
+	utimes,
+	writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { gunzipSync, inflateRawSync } from "node:zlib";
+import { ToolSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { type AllowedDirectory, validatePath } from "./fs";
+import { getJournal } from "./journal";
+import { isPathWithin } from "./path-policy";
+import { pathExists } from "./transfer";
+
+const ToolInputSchema = ToolSchema.shape.inputSchema;
+type ToolInput = z.infer<typeof ToolInputSchema>;
+
+// Entries inside zip and tar archives are addressed as bundle.zip!/docs/a.md
+export const ARCHIVE_SEPARATOR = "!/";
+
+export type ArchiveFormat = "zip" | "tar" | "tar.gz";
+
+export interface ArchiveEntry {
+	// Path inside the archive with / separators, as stored: it may still
+	// contain .. segments, which extraction refuses
+	name: string;
+	type: "file" | "directory" | "symlink" | "other";
+	size: number;
+	// Zip only; tar compresses the archive as a whole
+	compressedSize?: number;
+	modified: Date;
+	mode?: number;
+	linkTarget?: string;
+	// Zip: offset of the local file header. Tar: offset of the data in the
+	// uncompressed archive
+	offset: number;
+	compression?: number;
+	encrypted?: boolean;
+}
+
+// A path that points inside an archive; entryName is "" for its root
+export interface ArchiveLocation {
+	archivePath: string;
+	entryName: string;
+}
+
+// Tar archives are read into memory whole, decompressed
+const MAX_TAR_SIZE = 512 * 1024 * 1024;
+const MAX_EXTRACTED_SIZE = 1024 * 1024 * 1024;
+const MAX_EXTRACTED_ENTRIES = 100_000;
+
+// Schema definitions
+export const ExtractArchiveArgsSchema = z.object({
+	path: z
+		.string()
+		.describe(
+			"Archive to extract, or a directory inside one such as bundle.zip!/docs",
+		),
+	destination: z
+		.string()
+		.describe("Directory to extract into; created if it does not exist"),
+});
+
+export function joinArchivePath(archivePath: string, entryName: string) {
+	return `${archivePath}${ARCHIVE_SEPARATOR}${entryName}`;
+}
+
+// Entry names as requested: separators unified, . and .. resolved without
+// leaving the archive, no leading or trailing slash
+function normalizeEntryName(name: string): string {
+	const normalized = path.posix.normalize(`/${name.replace(/\\/g, "/")}`);
+	return normalized.replace(/^\/+|\/+$/g, "");
+}
+
+// Split a path at the first separator that follows an existing file, so
+// that a directory whose name ends in ! is not taken for an archive
+export async function locateArchiveEntry(
+	filePath: string,
+): Promise<ArchiveLocation | undefined> {
+	let index = filePath.indexOf(ARCHIVE_SEPARATOR);
+	while (index >= 0) {
+		const archivePath = filePath.slice(0, index);
+		if ((await stat(archivePath).catch(() => null))?.isFile()) {
+			return {
+				archivePath,
+				entryName: normalizeEntryName(
+					filePath.slice(index + ARCHIVE_SEPARATOR.length),
+				),
+			};
+		}
+		index = filePath.indexOf(ARCHIVE_SEPARATOR, index + 1);
+	}
+	return undefined;
+}
+
+async function readAt(
+	handle: FileHandle,
+	position: number,
+	length: number,
+): Promise<Buffer> {
+	const { buffer, bytesRead } = await handle.read(
+		Buffer.alloc(length),
+		0,
+		length,
+		position,
+	);
+	return buffer.subarray(0, bytesRead);
+}
+
+// Detected from the first bytes; gzip only counts when the name says tar
+export async function detectArchiveFormat(
+	filePath: string,
+): Promise<ArchiveFormat | undefined> {
+	const handle = await open(filePath, "r");
+	let header: Buffer;
+	try {
+		header = await readAt(handle, 0, 512);
+	} finally {
+		await handle.close();
+	}
+	const signature = header.length >= 4 ? header.readUInt32LE(0) : 0;
+	if (signature === LOCAL_HEADER_SIGNATURE || signature === EOCD_SIGNATURE) {
+		return "zip";
+	}
+	if (header[0] === 0x1f && header[1] === 0x8b) {
+		return /\.(tgz|tar\.gz)$/i.test(filePath) ? "tar.gz" : undefined;
+	}
+	if (
+		header.subarray(257, 262).toString("latin1") === "ustar" ||
+		(/\.tar$/i.test(filePath) && header.length === 512)
+	) {
+		return "tar";
+	}
+	return undefined;
+}
+
+// Zip
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const MAX_ZIP_COMMENT = 0xffff;
+
+function dosDateTime(date: number, time: number): Date {
+	return new Date(
+		(date >> 9) + 1980,
+		((date >> 5) & 0x0f) - 1,
+		date & 0x1f,
+		time >> 11,
+		(time >> 5) & 0x3f,
+		(time & 0x1f) * 2,
+	);
+}
+
+// The central directory at the end of the file lists every entry, so a
+// listing does not read any file data
+async function listZip(filePath: string): Promise<ArchiveEntry[]> {
+	const handle = await open(filePath, "r");
+	try {
+		const { size } = await handle.stat();
+		const tailStart = Math.max(0, size - 22 - MAX_ZIP_COMMENT);
+		const tail = await readAt(handle, tailStart, size - tailStart);
+		let eocd = -1;
+		for (let i = tail.length - 22; i >= 0; i--) {
+			if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+				eocd = i;
+				break;
+			}
+		}
+		if (eocd < 0) throw new Error(`Not a zip archive: ${filePath}`);
+
+		let count = tail.readUInt16LE(eocd + 10);
+		let directorySize = tail.readUInt32LE(eocd + 12);
+		let directoryOffset = tail.readUInt32LE(eocd + 16);
+		// Zip64 moves the counts and offsets that do not fit into another record
+		if (
+			eocd >= 20 &&
+			tail.readUInt32LE(eocd - 20) === ZIP64_LOCATOR_SIGNATURE
+		) {
+			const record = await readAt(
+				handle,
+				Number(tail.readBigUInt64LE(eocd - 12)),
+				56,
+			);
+			if (record.readUInt32LE(0) === ZIP64_EOCD_SIGNATURE) {
+				count = Number(record.readBigUInt64LE(32));
+				directorySize = Number(record.readBigUInt64LE(40));
+				directoryOffset = Number(record.readBigUInt64LE(48));
+			}
+		}
+
+		const directory = await readAt(handle, directoryOffset, directorySize);
+		const entries: ArchiveEntry[] = [];
+		let position = 0;
+		for (let i = 0; i < count; i++) {
+			if (directory.readUInt32LE(position) !== CENTRAL_HEADER_SIGNATURE) {
+				throw new Error(`Corrupt zip central directory: ${filePath}`);
+			}
+			const flags = directory.readUInt16LE(position + 8);
+			const nameLength = directory.readUInt16LE(position + 28);
+			const extraLength = directory.readUInt16LE(position + 30);
+			const commentLength = directory.readUInt16LE(position + 32);
+			const madeBy = directory.readUInt8(position + 5);
+			const externalAttributes = directory.readUInt32LE(position + 38);
+			let compressedSize = directory.readUInt32LE(position + 20);
+			let uncompressedSize = directory.readUInt32LE(position + 24);
+			let offset = directory.readUInt32LE(position + 42);
+			let modified = dosDateTime(
+				directory.readUInt16LE(position + 14),
+				directory.readUInt16LE(position + 12),
+			);
+			const nameStart = position + 46;
+			const rawName = directory
+				.subarray(nameStart, nameStart + nameLength)
+				.toString(flags & 0x800 ? "utf-8" : "latin1");
+
+			const extra = directory.subarray(
+				nameStart + nameLength,
+				nameStart + nameLength + extraLength,
+			);
+			for (let at = 0; at + 4 <= extra.length; ) {
+				const id = extra.readUInt16LE(at);
+				const length = extra.readUInt16LE(at + 2);
+				const data = extra.subarray(at + 4, at + 4 + length);
+				if (id === 0x0001) {
+					// Only the fields that overflowed are present, in this order
+					let field = 0;
+					const next = () => Number(data.readBigUInt64LE(field++ * 8));
+					if (uncompressedSize === 0xffffffff) uncompressedSize = next();
+					if (compressedSize === 0xffffffff) compressedSize = next();
+					if (offset === 0xffffffff) offset = next();
+				} else if (id === 0x5455 && length >= 5 && data[0] & 1) {
+					modified = new Date(data.readInt32LE(1) * 1000);
+				}
+				at += 4 + length;
+			}
+
+			// Unix permissions are in the high half when made on Unix
+			const mode = madeBy === 3 ? externalAttributes >>> 16 : undefined;
+			const isSymlink = mode !== undefined && (mode & 0o170000) === 0o120000;
+			entries.push({
+				name: rawName.replace(/\\/g, "/").replace(/^(\.\/)+|\/+$/g, ""),
+				type: rawName.endsWith("/")
+					? "directory"
+					: isSymlink
+						? "symlink"
+						: "file",
+				size: uncompressedSize,
+				compressedSize,
+				modified,
+				mode: mode === undefined ? undefined : mode & 0o7777,
+				offset,
+				compression: directory.readUInt16LE(position + 10),
+				encrypted: (flags & 1) !== 0,
+			});
+			position = nameStart + nameLength + extraLength + commentLength;
+		}
+		return entries;
+	} finally {
+		await handle.close();
+	}
+}
+
+async function readZipEntry(
+	filePath: string,
+	entry: ArchiveEntry,
+): Promise<Buffer> {
+	if (entry.encrypted) {
+		throw new Error(`${entry.name} is encrypted`);
+	}
+	const handle = await open(filePath, "r");
+	try {
+		const header = await readAt(handle, entry.offset, 30);
+		if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+			throw new Error(`Corrupt zip entry: ${entry.name}`);
+		}
+		const dataStart =
+			entry.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+		const data = await readAt(handle, dataStart, entry.compressedSize ?? 0);
+		if (entry.compression === 0) return data;
+		if (entry.compression !== 8) {
+			throw new Error(
+				`${entry.name} uses unsupported compression method ${entry.compression}`,
+			);
+		}
+		try {
+			// The declared size also stops a zip bomb from inflating further
+			return inflateRawSync(data, {
+				maxOutputLength: Math.max(entry.size, 1),
+			});
+		} catch (error) {
+			throw new Error(
+				`Corrupt zip entry ${entry.name}: ${error instanceof Error ? error.message : error}`,
+			);
+		}
+	} finally {
+		await handle.close();
+	}
+}
+
+// Tar
+
+function tarString(block: Buffer, start: number, length: number): string {
+	const field = block.subarray(start, start + length);
+	const end = field.indexOf(0);
+	return field.subarray(0, end < 0 ? length : end).toString("utf-8");
+}
+
+// Octal, or base-256 for values too large for the field
+function tarNumber(block: Buffer, start: number, length: number): number {
+	if (block[start] & 0x80) {
+		let value = 0;
+		for (let i = 1; i < length; i++) value = value * 256 + block[start + i];
+		return value;
+	}
+	return Number.parseInt(tarString(block, start, length).trim() || "0", 8);
+}
+
+// pax extended headers are "<length> <key>=<value>\n" records
+function parsePax(data: Buffer): Record<string, string> {
+	const records: Record<string, string> = {};
+	let at = 0;
+	while (at < data.length) {
+		const space = data.indexOf(0x20, at);
+		const length = Number.parseInt(data.subarray(at, space).toString(), 10);
+		if (space < 0 || !(length > 0)) break;
+		const record = data.subarray(space + 1, at + length - 1).toString("utf-8");
+		const equals = record.indexOf("=");
+		records[record.slice(0, equals)] = record.slice(equals + 1);
+		at += length;
+	}
+	return records;
+}
+
+async function readTar(
+	filePath: string,
+	format: ArchiveFormat,
+): Promise<Buffer> {
+	const { size } = await stat(filePath);
+	if (size > MAX_TAR_SIZE) {
+		throw new Error(`${filePath} is larger than ${MAX_TAR_SIZE} bytes`);
+	}
+	const file = await open(filePath, "r");
+	let data: Buffer;
+	try {
+		data = await file.readFile();
+	} finally {
+		await file.close();
+	}
+	if (format !== "tar.gz") return data;
+	try {
+		return gunzipSync(data, { maxOutputLength: MAX_TAR_SIZE });
+	} catch (error) {
+		throw new Error(
+			`Cannot decompress ${filePath}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+}
+
+function listTar(data: Buffer): ArchiveEntry[] {
+	const entries: ArchiveEntry[] = [];
+	// Long names and other overrides from pax or GNU headers for the next entry
+	let pending: Record<string, string> = {};
+	let position = 0;
+	while (position + 512 <= data.length) {
+		const block = data.subarray(position, position + 512);
+		if (block.every((byte) => byte === 0)) break;
+		const size = tarNumber(block, 124, 12);
+		const type = String.fromCharCode(block[156] || 0x30);
+		const dataStart = position + 512;
+		position = dataStart + Math.ceil(size / 512) * 512;
+
+		const content = () => data.subarray(dataStart, dataStart + size);
+		if (type === "x") {
+			pending = { ...pending, ...parsePax(content()) };
+			continue;
+		}
+		if (type === "L" || type === "K") {
+			pending[type === "L" ? "path" : "linkpath"] = tarString(
+				content(),
+				0,
+				size,
+			);
+			continue;
+		}
+		if (type === "g") continue;
+
+		const prefix =
+			block.subarray(257, 262).toString("latin1") === "ustar"
+				? tarString(block, 345, 155)
+				: "";
+		const name =
+			pending.path ??
+			(prefix
+				? `${prefix}/${tarString(block, 0, 100)}`
+				: tarString(block, 0, 100));
+		const mtime = pending.mtime
+			? Number(pending.mtime)
+			: tarNumber(block, 136, 12);
+		entries.push({
+			name: name.replace(/\\/g, "/").replace(/^(\.\/)+|\/+$/g, ""),
+			type:
+				type === "0" || type === "7"
+					? "file"
+					: type === "5"
+						? "directory"
+						: type === "2" || type === "1"
+							? "symlink"
+							: "other",
+			size: pending.size ? Number(pending.size) : size,
+			modified: new Date(mtime * 1000),
+			mode: tarNumber(block, 100, 8) & 0o7777,
+			linkTarget: pending.linkpath ?? (tarString(block, 157, 100) || undefined),
+			offset: dataStart,
+		});
+		pending = {};
+	}
+	// The root entry "./" has no name once normalized
+	return entries.filter((entry) => entry.name !== "");
+}
+
+// Tar archives are decompressed once and read from memory
+async function openArchive(archivePath: string): Promise<{
+	entries: ArchiveEntry[];
+	read(entry: ArchiveEntry): Promise<Buffer>;
+}> {
+	const format = await detectArchiveFormat(archivePath);
+	if (!format) throw new Error(`Not a zip or tar archive: ${archivePath}`);
+	if (format === "zip") {
+		return {
+			entries: await listZip(archivePath),
+			read: (entry) => readZipEntry(archivePath, entry),
+		};
+	}
+	const data = await readTar(archivePath, format);
+	return {
+		entries: listTar(data),
+		read: async (entry) =>
+			data.subarray(entry.offset, entry.offset + entry.size),
+	};
+}
+
+// The entry at a location; directories that only exist as the parents of
+// other entries are synthesized
+function findEntry(
+	entries: ArchiveEntry[],
+	location: ArchiveLocation,
+): ArchiveEntry {
+	const directory: ArchiveEntry = {
+		name: location.entryName,
+		type: "directory",
+		size: 0,
+		modified: new Date(0),
+		offset: 0,
+	};
+	if (location.entryName === "") return directory;
+	const match = entries.find(
+		(entry) => normalizeEntryName(entry.name) === location.entryName,
+	);
+	if (match) return match;
+	if (
+		entries.some((entry) =>
+			normalizeEntryName(entry.name).startsWith(`${location.entryName}/`),
+		)
+	) {
+		return directory;
+	}
+	throw new Error(
+		`No such entry in ${location.archivePath}: ${location.entryName}`,
+	);
+}
+
+export async function findArchiveEntry(
+	location: ArchiveLocation,
+): Promise<ArchiveEntry> {
+	return findEntry((await openArchive(location.archivePath)).entries, location);
+}
+
+export async function readArchiveEntry(
+	archivePath: string,
+	entry: ArchiveEntry,
+): Promise<Buffer> {
+	return (await openArchive(archivePath)).read(entry);
+}
+
+export interface ArchiveListing {
+	// Relative to the directory listed
+	name: string;
+	type: "file" | "directory" | "symlink";
+	size?: number;
+	compressedSize?: number;
+	modified?: Date;
+	linkTarget?: string;
+}
+
+// Entries below a directory inside an archive, either only its direct
+// children or all of them, sorted by name
+export async function listArchiveDirectory(
+	location: ArchiveLocation,
+	recursive = false,
+): Promise<ArchiveListing[]> {
+	const { entries } = await openArchive(location.archivePath);
+	if (findEntry(entries, location).type !== "directory") {
+		throw new Error(
+			`Not a directory in ${location.archivePath}: ${location.entryName}`,
+		);
+	}
+	const prefix = location.entryName ? `${location.entryName}/` : "";
+	const listed = new Map<string, ArchiveListing>();
+	for (const entry of entries) {
+		const name = normalizeEntryName(entry.name);
+		if (!name.startsWith(prefix) || name === location.entryName) continue;
+		const segments = name.slice(prefix.length).split("/");
+		const depth = recursive ? segments.length : 1;
+		// Parent directories may not have entries of their own
+		for (let i = 1; i < depth; i++) {
+			const parent = segments.slice(0, i).join("/");
+			if (!listed.has(parent)) {
+				listed.set(parent, { name: parent, type: "directory" });
+			}
+		}
+		const relative = segments.slice(0, depth).join("/");
+		if (segments.length > depth || entry.type === "directory") {
+			const existing = listed.get(relative);
+			listed.set(relative, {
+				name: relative,
+				type: "directory",
+				modified: segments.length > depth ? existing?.modified : entry.modified,
+			});
+		} else {
+			listed.set(relative, {
+				name: relative,
+				type: entry.type === "symlink" ? "symlink" : "file",
+				size: entry.size,
+				compressedSize: entry.compressedSize,
+				modified: entry.modified,
+				linkTarget: entry.linkTarget,
+			});
+		}
+	}
+	return [...listed.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Where an entry would be written, or an error if its name would put it
+// outside the destination (zip slip)
+function extractionTarget(destination: string, name: string): string {
+	const target = path.resolve(destination, ...name.split("/"));
+	if (
+		path.posix.isAbsolute(name) ||
+		/^[a-z]:/i.test(name) ||
+		target === destination ||
+		!isPathWithin(destination, target)
+	) {
+		throw new Error(
+			`Refusing to extract: entry ${JSON.stringify(name)} would be written outside ${destination}`,
+		);
+	}
+	return target;
+}
+
+export interface ExtractResult {
+	files: number;
+	bytes: number;
+	// Symlinks, hard links and special files are never created
+	skipped: string[];
+	// The outermost paths that did not exist before, and the archive paths
+	// they came from, so that undo can remove them
+	created: Array<{ from: string; to: string }>;
+}
+
+// Extract everything below location into destination. Every entry is checked
+// before anything is written; existing files are never replaced.
+export async function extractArchive(
+	location: ArchiveLocation,
+	destination: string,
+	allowedDirectories: AllowedDirectory[],
+): Promise<ExtractResult> {
+	const archive = await openArchive(location.archivePath);
+	const selected = findEntry(archive.entries, location);
+	const prefix = location.entryName ? `${location.entryName}/` : "";
+	// A single file is extracted under its own name; a directory's entries
+	// relative to it, checked by the name as stored so .. segments are seen
+	const entries: Array<{ entry: ArchiveEntry; relative: string }> =
+		selected.type === "directory"
+			? archive.entries
+					.filter((entry) => normalizeEntryName(entry.name).startsWith(prefix))
+					.map((entry) => ({
+						entry,
+						relative: entry.name.startsWith(prefix)
+							? entry.name.slice(prefix.length)
+							: entry.name,
+					}))
+			: [{ entry: selected, relative: path.posix.basename(selected.name) }];
+	if (entries.length > MAX_EXTRACTED_ENTRIES) {
+		throw new Error(
+			`${location.archivePath} has more than ${MAX_EXTRACTED_ENTRIES} entries`,
+		);
+	}
+
+	const result: ExtractResult = {
+		files: 0,
+		bytes: 0,
+		skipped: [],
+		created: [],
+	};
+	const planned: Array<{ entry: ArchiveEntry; target: string }> = [];
+	for (const { entry, relative } of entries) {
+		const target = extractionTarget(destination, relative);
+		if (entry.type === "symlink" || entry.type === "other") {
+			result.skipped.push(entry.name);
+			continue;
+		}
+		// Deny rules apply, and symlinks already in the destination may not
+		// lead out of it
+		const realTarget = await validatePath(target, allowedDirectories, "write");
+		if (!isPathWithin(destination, realTarget)) {
+			throw new Error(
+				`Refusing to extract: ${entry.name} would be written through a symlink to ${realTarget}`,
+			);
+		}
+		if (entry.type === "file" && (await pathExists(target))) {
+			throw new Error(`Refusing to extract: ${target} already exists`);
+		}
+		result.bytes += entry.size;
+		planned.push({ entry, target });
+	}
+	if (result.bytes > MAX_EXTRACTED_SIZE) {
+		throw new Error(
+			`${location.archivePath} would extract to ${result.bytes} bytes, more than ${MAX_EXTRACTED_SIZE}`,
+		);
+	}
+
+	const { created } = result;
+	const isCreated = (target: string) =>
+		created.some((root) => isPathWithin(root.to, target));
+	const noteCreated = (to: string) => {
+		const source =
+			selected.type === "directory"
+				? [
+						location.entryName,
+						...path.relative(destination, to).split(path.sep),
+					]
+						.filter(Boolean)
+						.join("/")
+				: location.entryName;
+		created.push({ from: joinArchivePath(location.archivePath, source), to });
+	};
+	const trackCreated = async (target: string) => {
+		if (isCreated(target)) return;
+		if (!(await pathExists(destination))) return noteCreated(destination);
+		let current = destination;
+		for (const segment of path.relative(destination, target).split(path.sep)) {
+			current = path.join(current, segment);
+			if (!(await pathExists(current))) return noteCreated(current);
+		}
+	};
+
+	try {
+		// Files before their directories' timestamps, so those stay as stored
+		for (const { entry, target } of planned) {
+			await trackCreated(target);
+			if (entry.type === "directory") {
+				await mkdir(target, { recursive: true });
+				continue;
+			}
+			const data = await archive.read(entry);
+			await mkdir(path.dirname(target), { recursive: true });
+			await writeFile(target, data, {
+				flag: "wx",
+				mode: entry.mode ? entry.mode & 0o777 : undefined,
+			});
+			await utimes(target, entry.modified, entry.modified);
+			result.files++;
+		}
+		for (const { entry, target } of planned) {
+			if (entry.type === "directory") {
+				await utimes(target, entry.modified, entry.modified);
+			}
+		}
+	} catch (error) {
+		for (const root of created) {
+			await rm(root.to, { recursive: true, force: true });
+		}
+		throw error;
+	}
+	return result;
+}
+
+// Tool definitions
+export const tools = [
+	{
+		name: "fs_extract_archive",
+		description:
+			"Extract a zip, tar or tar.gz archive, or one directory inside it " +
+			"(bundle.zip!/docs), into a destination directory. Every entry is " +
+			"checked first: nothing is written if an entry would land outside the " +
+			"destination or replace an existing file. Symlinks and special files " +
+			"are skipped. fs_undo removes what was extracted. The destination must " +
+			"be within writable allowed directories.",
+		inputSchema: zodToJsonSchema(ExtractArchiveArgsSchema) as ToolInput,
+	},
+];
+
+export async function handleTool(
+	name: string,
+	args: Record<string, unknown> | undefined,
+	allowedDirectories: AllowedDirectory[],
+) {
+	switch (name) {
+		case "fs_extract_archive": {
+			const parsed = ExtractArchiveArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(
+					`Invalid arguments for extract_archive: ${parsed.error}`,
+				);
+			}
+			const validPath = await validatePath(
+				parsed.data.path,
+				allowedDirectories,
+			);
+			const location = (await locateArchiveEntry(validPath)) ?? {
+				archivePath: validPath,
+				entryName: "",
+			};
+			const destination = await validatePath(
+				parsed.data.destination,
+				allowedDirectories,
+				"write",
+			);
+			const result = await extractArchive(
+				location,
+				destination,
+				allowedDirectories,
+			);
+			if (result.created.length > 0) {
+				await getJournal().record(
+					"extract_archive",
+					result.created.map(({ from, to }) => ({ type: "copy", from, to })),
+				);
+			}
+			const skipped =
+				result.skipped.length > 0
+					? `\nSkipped ${result.skipped.length} symlink(s) and special file(s):\n${result.skipped.join("\n")}`
+					: "";
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Extracted ${result.files} file(s), ${result.bytes} bytes, from ${parsed.data.path} to ${parsed.data.destination}${skipped}`,
+					},
+				],
+			};
+		}
+
+		default:
+			return null;
+	}
+}
@@ -0,0 +1,144 @@
+#!/usr/bin/env bun
+import { parseArgs } from "node:util";
+import {
+	type AccessMode,
+	CONFIG_FILE,
+	TOKEN_FILE,
+	approveDirectory,
+	denyDirectory,
+	readConfig,
+	readToken,
+	revokeDirectory,
+	rotateToken,
+} from "./config";
+import {
+	PROJECT_SETTINGS_FILE,
+	globalSettingsFile,
+	loadSettings,
+	readSettingsSources,
+} from "./settings";
+
+const USAGE = `Usage: semantic-fs <command> [directory] [options]
+
+Commands:
+  list              Show allowed, pending and revoked directories
+  pending           Show access requests waiting for approval
+  approve <dir>     Allow access to a directory (approves a pending request)
+  deny <dir>        Reject a pending access request
+  revoke <dir>      Withdraw access to a directory
+  token             Print the bearer token for the HTTP server (--http)
+  config            Show the settings in effect and where they come from
+
+Options for approve:
+  --read-only       Allow reading but not modifying files
+  --read-write      Allow modifying files (default unless the request asked for read)
+  --deny <glob>     Keep matching paths off limits; can be repeated
+
+Options for token:
+  --rotate          Replace the token, locking out clients using the old one
+
+Config file: ${CONFIG_FILE}
+Settings: ${globalSettingsFile()}, then ${PROJECT_SETTINGS_FILE} in the
+working directory or above, then SEMANTIC_FS_* environment variables`;
+
+async function main(args: string[]) {
+	const { positionals, values } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			"read-only": { type: "boolean" },
+			"read-write": { type: "boolean" },
+			deny: { type: "string", multiple: true },
+			rotate: { type: "boolean" },
+		},
+	});
+	const [command, dir] = positionals;
+
+	switch (command) {
+		case "list": {
+			const config = await readConfig();
+			console.log("Allowed directories:");
+			for (const allowed of config.allowedDirectories) {
+				const deny =
+					allowed.deny.length > 0 ? `, deny ${allowed.deny.join(" ")}` : "";
+				console.log(`  ${allowed.path} (${allowed.mode}${deny})`);
+			}
+			console.log("Pending requests:");
+			for (const request of config.pendingRequests) {
+				console.log(`  ${request.path} (${request.mode}: ${request.reason})`);
+			}
+			console.log("Revoked directories:");
+			for (const revoked of config.revokedDirectories) {
+				console.log(`  ${revoked}`);
+			}
+			return;
+		}
+
+		case "pending": {
+			const { pendingRequests } = await readConfig();
+			if (pendingRequests.length === 0) {
+				console.log("No pending requests");
+			}
+			for (const request of pendingRequests) {
+				console.log(`${request.path}`);
+				console.log(`  mode: ${request.mode}`);
+				console.log(`  reason: ${request.reason}`);
+				console.log(`  requested: ${request.requestedAt}`);
+			}
+			return;
+		}
+
+		case "approve":
+		case "deny":
+		case "revoke": {
+			if (!dir) {
+				throw new Error(`Missing directory for ${command}\n\n${USAGE}`);
+			}
+			if (command === "approve") {
+				let mode: AccessMode | undefined;
+				if (values["read-only"]) mode = "read";
+				if (values["read-write"]) mode = "write";
+				const approved = await approveDirectory(dir, {
+					mode,
+					deny: values.deny,
+				});
+				console.log(`Approved ${approved.path} (${approved.mode})`);
+			} else if (command === "revoke") {
+				console.log(`Revoked ${await revokeDirectory(dir)}`);
+			} else if (await denyDirectory(dir)) {
+				console.log(`Denied request for ${dir}`);
+			} else {
+				throw new Error(`No pending request for ${dir}`);
+			}
+			return;
+		}
+
+		case "token": {
+			console.log(values.rotate ? await rotateToken() : await readToken());
+			console.error(`Stored in ${TOKEN_FILE}`);
+			return;
+		}
+
+		case "config": {
+			const sources = await readSettingsSources();
+			console.log(JSON.stringify(await loadSettings(), null, 2));
+			console.error(
+				sources.length > 0
+					? `Set by ${sources.map((source) => source.name).join(", ")}; everything else is a default`
+					: "Every setting is a default",
+			);
+			return;
+		}
+
+		default:
+			console.log(USAGE);
+			if (command && command !== "help" && command !== "--help") {
+				process.exitCode = 1;
+			}
+	}
+}
+
+main(process.argv.slice(2)).catch((error) => {
+	console.error(error instanceof Error ? error.message : error);
+	process.exit(1);
+});
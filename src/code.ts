@@ -0,0 +1,269 @@
+import { stat } from "node:fs/promises";
+import { ToolSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+	type AllowedDirectory,
+	checkReadSize,
+	readTextFileOrThrow,
+	validatePath,
+} from "./fs";
+import {
+	findDeclarations,
+	findReferences,
+	formatOutline,
+	getOutline,
+	isSourceFile,
+	parseSource,
+} from "./outline";
+import { walkFiles } from "./semantic-index";
+
+const ToolInputSchema = ToolSchema.shape.inputSchema;
+type ToolInput = z.infer<typeof ToolInputSchema>;
+const ToolOutputSchema = ToolSchema.shape.outputSchema.unwrap();
+type ToolOutput = z.infer<typeof ToolOutputSchema>;
+
+// Schema definitions
+export const OutlineArgsSchema = z.object({
+	path: z.string().describe("TypeScript or JavaScript file to outline"),
+});
+
+export const FindSymbolArgsSchema = z.object({
+	name: z
+		.string()
+		.describe("Symbol to look up, e.g. 'validatePath' or 'Indexer.reindex'"),
+	path: z
+		.string()
+		.optional()
+		.describe(
+			"File or directory to search; defaults to all allowed directories",
+		),
+	references: z
+		.boolean()
+		.default(true)
+		.describe(
+			"Also list places where the name is used, matched by name rather than by type",
+		),
+	maxResults: z.number().int().positive().default(100),
+});
+
+export const FindSymbolResultSchema = z.object({
+	definitions: z.array(
+		z.object({
+			path: z.string(),
+			startLine: z.number(),
+			endLine: z.number(),
+			kind: z.string(),
+			qualifiedName: z.string(),
+		}),
+	),
+	references: z.array(
+		z.object({
+			path: z.string(),
+			line: z.number(),
+			column: z.number(),
+			text: z.string(),
+		}),
+	),
+	truncated: z.boolean(),
+});
+
+// Larger files are almost always generated or bundled code
+const MAX_SOURCE_FILE_SIZE = 1024 * 1024;
+
+type SymbolResults = z.infer<typeof FindSymbolResultSchema>;
+
+async function* sourceFiles(
+	searchPaths: string[],
+	allowedDirectories: AllowedDirectory[],
+): AsyncGenerator<string> {
+	const seen = new Set<string>();
+	for (const searchPath of searchPaths) {
+		const stats = await stat(searchPath).catch(() => null);
+		if (!stats) continue;
+		const files = stats.isDirectory()
+			? walkFiles(searchPath, allowedDirectories)
+			: [searchPath];
+		for await (const filePath of files) {
+			if (seen.has(filePath) || !isSourceFile(filePath)) continue;
+			seen.add(filePath);
+			yield filePath;
+		}
+	}
+}
+
+export async function findSymbol(
+	name: string,
+	searchPaths: string[],
+	allowedDirectories: AllowedDirectory[],
+	options: { references: boolean; maxResults: number },
+): Promise<SymbolResults> {
+	const results: SymbolResults = {
+		definitions: [],
+		references: [],
+		truncated: false,
+	};
+	// References match the last segment of a qualified name
+	const identifier = name.split(".").pop() ?? name;
+	let count = 0;
+
+	for await (const filePath of sourceFiles(searchPaths, allowedDirectories)) {
+		try {
+			const stats = await stat(filePath);
+			if (stats.size > MAX_SOURCE_FILE_SIZE) continue;
+			const { text } = await readTextFileOrThrow(filePath);
+			if (!text.includes(identifier)) continue;
+
+			const sourceFile = await parseSource(filePath, text);
+			for (const declaration of findDeclarations(
+				getOutline(sourceFile),
+				name,
+			)) {
+				results.definitions.push({
+					path: filePath,
+					startLine: declaration.startLine,
+					endLine: declaration.endLine,
+					kind: declaration.kind,
+					qualifiedName: declaration.qualifiedName,
+				});
+				count++;
+			}
+			if (options.references) {
+				for (const reference of findReferences(sourceFile, identifier)) {
+					results.references.push({ path: filePath, ...reference });
+					count++;
+				}
+			}
+		} catch {
+			continue;
+		}
+		if (count >= options.maxResults) {
+			results.truncated = true;
+			break;
+		}
+	}
+	// Definitions are kept over references when trimming to maxResults
+	if (results.truncated) {
+		results.definitions = results.definitions.slice(0, options.maxResults);
+		results.references = results.references.slice(
+			0,
+			options.maxResults - results.definitions.length,
+		);
+	}
+	return results;
+}
+
+function formatSymbolResults(name: string, results: SymbolResults): string {
+	const sections = [
+		results.definitions.length > 0
+			? `Definitions of ${name}:\n${results.definitions
+					.map(
+						(d) =>
+							`${d.path}:${d.startLine}-${d.endLine} ${d.kind} ${d.qualifiedName}`,
+					)
+					.join("\n")}`
+			: `No definitions of ${name} found`,
+	];
+	if (results.references.length > 0) {
+		sections.push(
+			`References:\n${results.references
+				.map((r) => `${r.path}:${r.line}:${r.column}: ${r.text}`)
+				.join("\n")}`,
+		);
+	}
+	if (results.truncated) {
+		sections.push(
+			"[Stopped at maxResults; narrow the search with 'path' to see more]",
+		);
+	}
+	return sections.join("\n\n");
+}
+
+// Tool definitions
+export const tools = [
+	{
+		name: "fs_outline",
+		description:
+			"List the declarations in a TypeScript or JavaScript file: functions, " +
+			"classes with their members, interfaces, types, enums, variables, " +
+			"namespaces and exports, each with its line range. Use it to find your " +
+			"way around a large file, then read one declaration with fs_read_file's " +
+			"'symbol' argument. Only works within allowed directories.",
+		inputSchema: zodToJsonSchema(OutlineArgsSchema) as ToolInput,
+	},
+	{
+		name: "fs_find_symbol",
+		description:
+			"Find where a TypeScript or JavaScript symbol is defined, and optionally " +
+			"where its name is used, across a file, a directory or all allowed " +
+			"directories. Qualified names such as 'Class.method' narrow definitions " +
+			"to one class. References are matched by name without type information, " +
+			"so unrelated symbols with the same name are included. Only works " +
+			"within allowed directories.",
+		inputSchema: zodToJsonSchema(FindSymbolArgsSchema) as ToolInput,
+		outputSchema: zodToJsonSchema(FindSymbolResultSchema) as ToolOutput,
+	},
+];
+
+// Tool handlers
+export async function handleTool(
+	name: string,
+	args: Record<string, unknown> | undefined,
+	allowedDirectories: AllowedDirectory[],
+) {
+	switch (name) {
+		case "fs_outline": {
+			const parsed = OutlineArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for outline: ${parsed.error}`);
+			}
+			const validPath = await validatePath(
+				parsed.data.path,
+				allowedDirectories,
+			);
+			await checkReadSize(validPath);
+			const { text } = await readTextFileOrThrow(validPath);
+			const sourceFile = await parseSource(validPath, text);
+			const outline = getOutline(sourceFile);
+			return {
+				content: [
+					{
+						type: "text",
+						text:
+							outline.length > 0
+								? formatOutline(outline)
+								: "No declarations found",
+					},
+				],
+			};
+		}
+
+		case "fs_find_symbol": {
+			const parsed = FindSymbolArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for find_symbol: ${parsed.error}`);
+			}
+			const searchPaths = parsed.data.path
+				? [await validatePath(parsed.data.path, allowedDirectories)]
+				: allowedDirectories.map((dir) => dir.path);
+			const results = await findSymbol(
+				parsed.data.name,
+				searchPaths,
+				allowedDirectories,
+				parsed.data,
+			);
+			return {
+				content: [
+					{
+						type: "text",
+						text: formatSymbolResults(parsed.data.name, results),
+					},
+				],
+				structuredContent: results,
+			};
+		}
+
+		default:
+			return null;
+	}
+}
@@ -0,0 +1,351 @@
+import { randomBytes } from "node:crypto";
+import {
+	chmod,
+	mkdir,
+	readFile,
+	rename,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { z } from "zod";
+import * as fs from "./fs";
+import type { AllowedDirectory } from "./fs";
+import { findExistingCasing } from "./path-policy";
+
+export const CONFIG_DIR = path.join(os.homedir(), ".config", "semantic-fs");
+export const CONFIG_FILE = path.join(CONFIG_DIR, "approved.json");
+// Bearer token HTTP clients must present; readable by the owner only
+export const TOKEN_FILE = path.join(CONFIG_DIR, "token");
+
+export type AccessMode = AllowedDirectory["mode"];
+
+export interface AccessRequest {
+	path: string;
+	mode: AccessMode;
+	reason: string;
+	requestedAt: string;
+}
+
+const AccessModeSchema = z.enum(["read", "write"]);
+
+// On disk an entry is either a bare path, which grants read-write access, or
+// { path, mode, deny } for read-only directories and deny globs
+const AllowedDirectoryEntrySchema = z.union([
+	z.string(),
+	z
+		.object({
+			path: z.string(),
+			mode: AccessModeSchema.optional(),
+			deny: z.array(z.string()).optional(),
+		})
+		.strict(),
+]);
+
+type AllowedDirectoryEntry = z.infer<typeof AllowedDirectoryEntrySchema>;
+
+const ConfigFileSchema = z.object({
+	allowedDirectories: z.array(AllowedDirectoryEntrySchema).default([]),
+	pendingRequests: z
+		.array(
+			z.object({
+				path: z.string(),
+				// Requests from older versions had no mode
+				mode: AccessModeSchema.default("read"),
+				reason: z.string(),
+				requestedAt: z.string(),
+			}),
+		)
+		.default([]),
+	revokedDirectories: z.array(z.string()).default([]),
+});
+
+export interface Config {
+	allowedDirectories: AllowedDirectory[];
+	pendingRequests: AccessRequest[];
+	revokedDirectories: string[];
+}
+
+// For a union, only the members the value had the right type for are
+// worth reporting, such as the object form of an allowed directory entry
+function unionIssues(
+	issue: Extract<z.ZodIssue, { code: "invalid_union" }>,
+): z.ZodIssue[] {
+	const candidates = issue.unionErrors.filter(
+		(error) =>
+			!error.issues.some(
+				(inner) =>
+					inner.code === "invalid_type" &&
+					inner.path.length === issue.path.length,
+			),
+	);
+	return candidates.length === 1 ? candidates[0].issues : [issue];
+}
+
+export function formatIssues(error: z.ZodError): string {
+	return error.issues
+		.flatMap((issue) =>
+			issue.code === "invalid_union" ? unionIssues(issue) : [issue],
+		)
+		.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+		.join("; ");
+}
+
+// Read and validate a JSON config file; errors name the file and the fields
+// at fault. A missing file reads as an empty object.
+export async function readJsonConfig<T>(
+	file: string,
+	schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): Promise<T> {
+	const text = await readFile(file, "utf-8").catch(
+		(error: NodeJS.ErrnoException) => {
+			if (error.code === "ENOENT") return "{}";
+			throw error;
+		},
+	);
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch (error) {
+		throw new Error(
+			`Invalid JSON in ${file}: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+	const parsed = schema.safeParse(data);
+	if (!parsed.success) {
+		throw new Error(`Invalid ${file}: ${formatIssues(parsed.error)}`);
+	}
+	return parsed.data;
+}
+
+export function resolveDirectory(dir: string): string {
+	return fs.normalizePath(path.resolve(fs.expandHome(dir)));
+}
+
+// Initialize config directory and file if they don't exist
+export async function initializeConfig() {
+	try {
+		try {
+			await readFile(CONFIG_FILE, "utf-8");
+		} catch {
+			await writeFile(
+				CONFIG_FILE,
+				JSON.stringify({ allowedDirectories: [] }, null, 2),
+			);
+		}
+	} catch {
+		await mkdir(CONFIG_DIR, { recursive: true });
+		await writeFile(
+			CONFIG_FILE,
+			JSON.stringify({ allowedDirectories: [] }, null, 2),
+		);
+	}
+}
+
+function parseAllowedDirectory(entry: AllowedDirectoryEntry): AllowedDirectory {
+	if (typeof entry === "string") {
+		return { path: resolveDirectory(entry), mode: "write", deny: [] };
+	}
+	return {
+		path: resolveDirectory(entry.path),
+		mode: entry.mode ?? "write",
+		deny: entry.deny ?? [],
+	};
+}
+
+function serializeAllowedDirectory(
+	dir: AllowedDirectory,
+): AllowedDirectoryEntry {
+	if (dir.mode === "write" && dir.deny.length === 0) return dir.path;
+	return dir.deny.length > 0 ? dir : { path: dir.path, mode: dir.mode };
+}
+
+// Older versions stored every directory lowercased, which only matches the
+// real directory on case-insensitive filesystems
+async function restoreCasing(dir: string): Promise<string> {
+	if (await stat(dir).catch(() => null)) return dir;
+	return (await findExistingCasing(dir)) ?? dir;
+}
+
+export async function readConfig(): Promise<Config> {
+	await initializeConfig();
+	const config = await readJsonConfig(CONFIG_FILE, ConfigFileSchema);
+	const allowedDirectories: AllowedDirectory[] = await Promise.all(
+		config.allowedDirectories.map(parseAllowedDirectory).map(async (dir) => ({
+			...dir,
+			path: await restoreCasing(dir.path),
+		})),
+	);
+	return {
+		allowedDirectories,
+		pendingRequests: config.pendingRequests,
+		revokedDirectories: config.revokedDirectories.map(resolveDirectory),
+	};
+}
+
+export async function writeConfig(config: Config) {
+	await mkdir(CONFIG_DIR, { recursive: true });
+	await writeFile(
+		CONFIG_FILE,
+		JSON.stringify(
+			{
+				...config,
+				allowedDirectories: config.allowedDirectories.map(
+					serializeAllowedDirectory,
+				),
+			},
+			null,
+			2,
+		),
+	);
+}
+
+// Load allowed directories from config. Directories passed on the command
+// line are granted read-write for this session only, unless they have been
+// revoked or configured with a narrower mode.
+export async function loadAllowedDirectories(
+	sessionDirectories: string[] = [],
+): Promise<AllowedDirectory[]> {
+	const config = await readConfig();
+	const revoked = new Set(config.revokedDirectories);
+	const allowed = new Map<string, AllowedDirectory>();
+	for (const dir of sessionDirectories) {
+		const resolved = resolveDirectory(dir);
+		allowed.set(resolved, { path: resolved, mode: "write", deny: [] });
+	}
+	for (const dir of config.allowedDirectories) {
+		allowed.set(dir.path, dir);
+	}
+	return [...allowed.values()].filter((dir) => !revoked.has(dir.path));
+}
+
+// Record a pending request; returns false if the directory is already allowed
+export async function requestDirectoryAccess(
+	dir: string,
+	mode: AccessMode,
+	reason: string,
+): Promise<boolean> {
+	const config = await readConfig();
+	const resolved = resolveDirectory(dir);
+	const existing = config.allowedDirectories.find(
+		(allowed) => allowed.path === resolved,
+	);
+	if (existing && (existing.mode === "write" || mode === "read")) return false;
+
+	config.pendingRequests = [
+		...config.pendingRequests.filter((request) => request.path !== resolved),
+		{ path: resolved, mode, reason, requestedAt: new Date().toISOString() },
+	];
+	await writeConfig(config);
+	return true;
+}
+
+// Without an explicit mode, a pending request's mode is granted, and
+// read-write otherwise
+export async function approveDirectory(
+	dir: string,
+	options: { mode?: AccessMode; deny?: string[] } = {},
+): Promise<AllowedDirectory> {
+	const config = await readConfig();
+	const resolved = resolveDirectory(dir);
+	const request = config.pendingRequests.find(
+		(pending) => pending.path === resolved,
+	);
+	const existing = config.allowedDirectories.find(
+		(allowed) => allowed.path === resolved,
+	);
+	const approved: AllowedDirectory = {
+		path: resolved,
+		mode: options.mode ?? request?.mode ?? "write",
+		deny: options.deny ?? existing?.deny ?? [],
+	};
+	config.allowedDirectories = [
+		...config.allowedDirectories.filter((allowed) => allowed.path !== resolved),
+		approved,
+	];
+	config.pendingRequests = config.pendingRequests.filter(
+		(request) => request.path !== resolved,
+	);
+	config.revokedDirectories = config.revokedDirectories.filter(
+		(revoked) => revoked !== resolved,
+	);
+	await writeConfig(config);
+	return approved;
+}
+
+// Returns false if there was no pending request for the directory
+export async function denyDirectory(dir: string): Promise<boolean> {
+	const config = await readConfig();
+	const resolved = resolveDirectory(dir);
+	const remaining = config.pendingRequests.filter(
+		(request) => request.path !== resolved,
+	);
+	if (remaining.length === config.pendingRequests.length) return false;
+	config.pendingRequests = remaining;
+	await writeConfig(config);
+	return true;
+}
+
+// Revoking also blocks the directory when it is passed on the command line
+export async function revokeDirectory(dir: string): Promise<string> {
+	const config = await readConfig();
+	const resolved = resolveDirectory(dir);
+	config.allowedDirectories = config.allowedDirectories.filter(
+		(allowed) => allowed.path !== resolved,
+	);
+	config.pendingRequests = config.pendingRequests.filter(
+		(request) => request.path !== resolved,
+	);
+	config.revokedDirectories = [
+		...new Set([...config.revokedDirectories, resolved]),
+	];
+	await writeConfig(config);
+	return resolved;
+}
+
+// The new token replaces the file in one step, since a running HTTP server
+// reads it for every request
+export async function rotateToken(): Promise<string> {
+	const token = randomBytes(32).toString("base64url");
+	await mkdir(CONFIG_DIR, { recursive: true });
+	const tempFile = `${TOKEN_FILE}.${randomBytes(6).toString("hex")}.tmp`;
+	await writeFile(tempFile, `${token}\n`, { mode: 0o600 });
+	// mode only applies when the file is created
+	await chmod(tempFile, 0o600);
+	await rename(tempFile, TOKEN_FILE);
+	return token;
+}
+
+// Resolves to undefined only when there is no token file yet
+async function readTokenFile(): Promise<string | undefined> {
+	let token: string;
+	try {
+		token = (await readFile(TOKEN_FILE, "utf-8")).trim();
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+		throw error;
+	}
+	if (!token) {
+		throw new Error(
+			`${TOKEN_FILE} is empty; run semantic-fs token --rotate to create a new token`,
+		);
+	}
+	return token;
+}
+
+let creatingToken: Promise<string> | undefined;
+
+// The HTTP bearer token, created on first use. Concurrent first requests
+// share one creation, which checks again for a token written meanwhile, so
+// the token is never replaced under a client that already has it.
+export async function readToken(): Promise<string> {
+	const token = await readTokenFile();
+	if (token) return token;
+	creatingToken ??= readTokenFile()
+		.then((existing) => existing ?? rotateToken())
+		.finally(() => {
+			creatingToken = undefined;
+		});
+	return creatingToken;
+}
@@ -0,0 +1,416 @@
+import { createHash } from "node:crypto";
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { ToolSchema } from "@modelcontextprotocol/sdk/types.js";
+import { minimatch } from "minimatch";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { cosineSimilarity, tokenize } from "./embedder";
+import { decodeTextFile } from "./encoding";
+import { type AllowedDirectory, expandHome, validatePath } from "./fs";
+import { startIndexer } from "./semantic";
+import { walkFiles } from "./semantic-index";
+
+const ToolInputSchema = ToolSchema.shape.inputSchema;
+type ToolInput = z.infer<typeof ToolInputSchema>;
+const ToolOutputSchema = ToolSchema.shape.outputSchema.unwrap();
+type ToolOutput = z.infer<typeof ToolOutputSchema>;
+
+// Schema definitions
+export const GatherContextArgsSchema = z.object({
+	question: z.string().describe("What the context should help answer"),
+	paths: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Files, directories or globs such as ~/notes/**/*.md to draw from; every allowed directory if omitted",
+		),
+	maxTokens: z
+		.number()
+		.int()
+		.min(100)
+		.max(200_000)
+		.default(4000)
+		.describe("Token budget for the passages returned, estimated"),
+});
+
+export const GatherContextResultSchema = z.object({
+	passages: z.array(
+		z.object({
+			// path:startLine-endLine, the same for the same lines on every call
+			id: z.string(),
+			path: z.string(),
+			startLine: z.number(),
+			endLine: z.number(),
+			score: z.number(),
+			text: z.string(),
+		}),
+	),
+	tokens: z.number(),
+	maxTokens: z.number(),
+	filesSearched: z.number(),
+	// Relevant passages left out for lack of budget
+	omitted: z.number(),
+	incomplete: z.boolean(),
+});
+
+export type Passage = z.infer<
+	typeof GatherContextResultSchema
+>["passages"][number];
+
+// Scopes larger than this are cut off, and the result says so
+const MAX_FILES = 5000;
+// Ranking blends embedding similarity with how much of the question's
+// vocabulary a chunk covers, since the default embedder is only lexical
+const SEMANTIC_WEIGHT = 0.6;
+// Rough, but the same on every call: about four characters per token
+const CHARS_PER_TOKEN = 4;
+// The id line and separators around each passage
+const PASSAGE_OVERHEAD_TOKENS = 12;
+// Passages that only fit trimmed are not worth it below this size
+const MIN_TRIMMED_TOKENS = 60;
+
+const GLOB_CHARACTERS = /[*?[\]{}]/;
+
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function citationId(
+	filePath: string,
+	startLine: number,
+	endLine: number,
+): string {
+	return `${filePath}:${startLine}-${endLine}`;
+}
+
+// The files a scope entry covers: a file, everything under a directory, or
+// the files under a glob's fixed leading directories that match the rest
+async function* scopeFiles(
+	entry: string,
+	allowedDirectories: AllowedDirectory[],
+): AsyncGenerator<string> {
+	const absolute = path.resolve(expandHome(entry));
+	const segments = absolute.split(path.sep);
+	const firstGlob = segments.findIndex((segment) =>
+		GLOB_CHARACTERS.test(segment),
+	);
+	if (firstGlob < 0) {
+		const validPath = await validatePath(absolute, allowedDirectories);
+		if ((await stat(validPath)).isFile()) yield validPath;
+		else yield* walkFiles(validPath, allowedDirectories);
+		return;
+	}
+	const root = await validatePath(
+		segments.slice(0, firstGlob).join(path.sep) || path.sep,
+		allowedDirectories,
+	);
+	const pattern = segments.slice(firstGlob).join("/");
+	for await (const filePath of walkFiles(root, allowedDirectories)) {
+		const relative = path.relative(root, filePath).split(path.sep).join("/");
+		if (minimatch(relative, pattern, { dot: true })) yield filePath;
+	}
+}
+
+interface Candidate {
+	path: string;
+	startLine: number;
+	endLine: number;
+	score: number;
+}
+
+// Inverse document frequency of each question term over the candidates, so
+// that rare terms count for more than ones every chunk contains
+function termWeights(
+	queryTerms: string[],
+	chunkTerms: Array<Set<string>>,
+): Map<string, number> {
+	const weights = new Map<string, number>();
+	for (const term of queryTerms) {
+		const frequency = chunkTerms.filter((terms) => terms.has(term)).length;
+		weights.set(term, Math.log(1 + chunkTerms.length / (frequency + 1)));
+	}
+	return weights;
+}
+
+// The lines of a passage around the one that mentions the question most,
+// widened alternately downwards and upwards while they fit
+function trimPassage(
+	lines: string[],
+	queryTerms: Set<string>,
+	maxTokens: number,
+): { offset: number; lines: string[] } {
+	let best = 0;
+	let bestHits = -1;
+	lines.forEach((line, i) => {
+		const hits = tokenize(line).filter((term) => queryTerms.has(term)).length;
+		if (hits > bestHits) {
+			bestHits = hits;
+			best = i;
+		}
+	});
+	let start = best;
+	let end = best + 1;
+	let tokens = estimateTokens(lines[best]);
+	let grown = true;
+	while (grown) {
+		grown = false;
+		for (const next of [end, start - 1]) {
+			if (next < 0 || next >= lines.length) continue;
+			const cost = estimateTokens(`${lines[next]}\n`);
+			if (tokens + cost > maxTokens) continue;
+			tokens += cost;
+			if (next === end) end++;
+			else start--;
+			grown = true;
+		}
+	}
+	return { offset: start, lines: lines.slice(start, end) };
+}
+
+export interface GatheredContext {
+	passages: Passage[];
+	tokens: number;
+	filesSearched: number;
+	omitted: number;
+	incomplete: boolean;
+}
+
+export async function gatherContext(
+	question: string,
+	scope: string[],
+	maxTokens: number,
+	allowedDirectories: AllowedDirectory[],
+): Promise<GatheredContext> {
+	const files = new Set<string>();
+	let incomplete = false;
+	for (const entry of scope) {
+		for await (const filePath of scopeFiles(entry, allowedDirectories)) {
+			if (files.size >= MAX_FILES) {
+				incomplete = true;
+				break;
+			}
+			files.add(filePath);
+		}
+	}
+
+	// Chunks and their vectors come from the semantic index, brought up to
+	// date for the files in scope first
+	const indexer = await startIndexer(allowedDirectories);
+	await indexer.reindex([...files]);
+	const { index } = indexer;
+	const [queryVector] = await index.embedder.embed([question]);
+	const queryTerms = [...new Set(tokenize(question))];
+
+	const chunks = [...files].flatMap((filePath) =>
+		(index.get(filePath)?.chunks ?? []).map((chunk) => ({
+			...chunk,
+			path: filePath,
+		})),
+	);
+	const chunkTerms = chunks.map((chunk) => new Set(tokenize(chunk.text)));
+	const weights = termWeights(queryTerms, chunkTerms);
+	const totalWeight = [...weights.values()].reduce((a, b) => a + b, 0);
+
+	const candidates: Candidate[] = chunks
+		.map((chunk, i) => {
+			const coverage =
+				totalWeight > 0
+					? queryTerms
+							.filter((term) => chunkTerms[i].has(term))
+							.reduce((sum, term) => sum + (weights.get(term) ?? 0), 0) /
+						totalWeight
+					: 0;
+			const similarity = Math.max(
+				0,
+				cosineSimilarity(queryVector, chunk.vector),
+			);
+			return {
+				path: chunk.path,
+				startLine: chunk.startLine,
+				endLine: chunk.endLine,
+				score: SEMANTIC_WEIGHT * similarity + (1 - SEMANTIC_WEIGHT) * coverage,
+			};
+		})
+		.filter((candidate) => candidate.score > 0)
+		// Ties broken by position so the same question gives the same answer
+		.sort(
+			(a, b) =>
+				b.score - a.score ||
+				a.path.localeCompare(b.path) ||
+				a.startLine - b.startLine,
+		);
+
+	// Passage text comes from the files themselves, since chunks are cut off
+	// at a character limit
+	const fileLines = new Map<string, string[]>();
+	const linesOf = async (filePath: string) => {
+		let lines = fileLines.get(filePath);
+		if (!lines) {
+			lines = decodeTextFile(await readFile(filePath))?.text.split("\n") ?? [];
+			fileLines.set(filePath, lines);
+		}
+		return lines;
+	};
+	const textOf = async (passage: Omit<Passage, "id" | "text">) =>
+		(await linesOf(passage.path))
+			.slice(passage.startLine - 1, passage.endLine)
+			.join("\n");
+
+	const selected: Passage[] = [];
+	const seenText = new Set<string>();
+	let tokens = 0;
+	let omitted = 0;
+	for (const candidate of candidates) {
+		const remaining = maxTokens - tokens;
+		// Chunks overlap, so one touching a chosen passage extends it instead
+		const neighbour = selected.find(
+			(passage) =>
+				passage.path === candidate.path &&
+				candidate.startLine <= passage.endLine + 1 &&
+				candidate.endLine >= passage.startLine - 1,
+		);
+		if (neighbour) {
+			const merged = {
+				...neighbour,
+				startLine: Math.min(neighbour.startLine, candidate.startLine),
+				endLine: Math.max(neighbour.endLine, candidate.endLine),
+			};
+			if (
+				merged.startLine === neighbour.startLine &&
+				merged.endLine === neighbour.endLine
+			) {
+				continue;
+			}
+			const text = await textOf(merged);
+			const cost = estimateTokens(text) - estimateTokens(neighbour.text);
+			if (cost > remaining) {
+				omitted++;
+				continue;
+			}
+			Object.assign(neighbour, merged, { text });
+			tokens += cost;
+			continue;
+		}
+
+		let passage = { ...candidate, text: await textOf(candidate) };
+		// The same text elsewhere, such as a vendored copy, adds nothing
+		const fingerprint = createHash("sha1")
+			.update(passage.text.trim())
+			.digest("hex");
+		if (seenText.has(fingerprint)) continue;
+		let cost = estimateTokens(passage.text) + PASSAGE_OVERHEAD_TOKENS;
+		if (cost > remaining) {
+			const budget = remaining - PASSAGE_OVERHEAD_TOKENS;
+			if (budget < MIN_TRIMMED_TOKENS) {
+				omitted++;
+				continue;
+			}
+			const trimmed = trimPassage(
+				passage.text.split("\n"),
+				new Set(queryTerms),
+				budget,
+			);
+			passage = {
+				...passage,
+				startLine: passage.startLine + trimmed.offset,
+				endLine: passage.startLine + trimmed.offset + trimmed.lines.length - 1,
+				text: trimmed.lines.join("\n"),
+			};
+			cost = estimateTokens(passage.text) + PASSAGE_OVERHEAD_TOKENS;
+		}
+		seenText.add(fingerprint);
+		selected.push({ ...passage, id: "" });
+		tokens += cost;
+	}
+
+	return {
+		passages: selected.map((passage) => ({
+			...passage,
+			id: citationId(passage.path, passage.startLine, passage.endLine),
+		})),
+		tokens,
+		filesSearched: files.size,
+		omitted,
+		incomplete,
+	};
+}
+
+export function formatContext(
+	question: string,
+	context: GatheredContext,
+	maxTokens: number,
+): string {
+	const summary = [
+		`Question: ${question}`,
+		`${context.passages.length} passage(s) from ${new Set(context.passages.map((passage) => passage.path)).size} of ${context.filesSearched} file(s), about ${context.tokens} of ${maxTokens} tokens`,
+	];
+	if (context.omitted > 0) {
+		summary.push(
+			`${context.omitted} more relevant passage(s) did not fit; raise maxTokens or narrow paths`,
+		);
+	}
+	if (context.incomplete) {
+		summary.push(`Only the first ${MAX_FILES} files in scope were searched`);
+	}
+	if (context.passages.length === 0) {
+		return [...summary, "No relevant passages found"].join("\n");
+	}
+	summary.push("Cite passages by their id in square brackets.");
+	const passages = context.passages.map(
+		(passage) =>
+			`=== [${passage.id}] score ${passage.score.toFixed(3)} ===\n${passage.text}`,
+	);
+	return [summary.join("\n"), ...passages].join("\n\n");
+}
+
+// Tool definitions
+export const tools = [
+	{
+		name: "fs_gather_context",
+		description:
+			"Collect the passages most relevant to a question from files in the " +
+			"allowed directories, packed into a token budget, for answering " +
+			"questions about the files. 'paths' limits the search to files, " +
+			"directories or globs. Passages are ranked by meaning and by the " +
+			"question's words, overlapping ones are merged and identical ones " +
+			"dropped, and each comes with a citation id (path:startLine-endLine) " +
+			"that stays the same between calls; quote it when using the passage. " +
+			"Uses the semantic index, updating it for the files in scope first.",
+		inputSchema: zodToJsonSchema(GatherContextArgsSchema) as ToolInput,
+		outputSchema: zodToJsonSchema(GatherContextResultSchema) as ToolOutput,
+	},
+];
+
+export async function handleTool(
+	name: string,
+	args: Record<string, unknown> | undefined,
+	allowedDirectories: AllowedDirectory[],
+) {
+	switch (name) {
+		case "fs_gather_context": {
+			const parsed = GatherContextArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(
+					`Invalid arguments for gather_context: ${parsed.error}`,
+				);
+			}
+			const { question, maxTokens } = parsed.data;
+			const context = await gatherContext(
+				question,
+				parsed.data.paths ?? allowedDirectories.map((dir) => dir.path),
+				maxTokens,
+				allowedDirectories,
+			);
+			return {
+				content: [
+					{ type: "text", text: formatContext(question, context, maxTokens) },
+				],
+				structuredContent: { ...context, maxTokens },
+			};
+		}
+
+		default:
+			return null;
+	}
+}
@@ -0,0 +1,439 @@
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { readFile, realpath, stat } from "node:fs/promises";
+import { ToolSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { decodeTextFile } from "./encoding";
+import { FindArgsSchema, type FindResult, findFiles } from "./find";
+import { type AllowedDirectory, validatePath } from "./fs";
+import { detectMimeType, readFileHeader } from "./mime";
+import { extractOffice, formatOffice, isOfficeMimeType } from "./office";
+import { CursorSchema, describePage, paginate } from "./pagination";
+import { extractPdf } from "./pdf";
+import { formatSize } from "./tree";
+
+const ToolInputSchema = ToolSchema.shape.inputSchema;
+type ToolInput = z.infer<typeof ToolInputSchema>;
+const ToolOutputSchema = ToolSchema.shape.outputSchema.unwrap();
+type ToolOutput = z.infer<typeof ToolOutputSchema>;
+
+// Schema definitions
+export const FindDuplicatesArgsSchema = z.object({
+	path: z.string().describe("Directory to search"),
+	excludePatterns: z.array(z.string()).optional().default([]),
+	respectIgnoreFiles: z
+		.boolean()
+		.default(true)
+		.describe(
+			"Skip .git, node_modules and anything matched by .gitignore or .semanticignore",
+		),
+	minSize: z
+		.number()
+		.int()
+		.nonnegative()
+		.default(1)
+		.describe("Ignore files smaller than this many bytes"),
+	nearDuplicates: z
+		.boolean()
+		.default(false)
+		.describe(
+			"Also group text files and PDFs whose wording is nearly the same",
+		),
+	similarity: z
+		.number()
+		.min(0.5)
+		.max(1)
+		.default(0.8)
+		.describe("How alike near duplicates must be, from 0.5 to 1"),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.max(500)
+		.default(50)
+		.describe("Groups per page"),
+	cursor: CursorSchema,
+});
+
+export const DuplicateGroupSchema = z.object({
+	kind: z.enum(["identical", "similar"]),
+	files: z.array(z.string()),
+	// Identical groups: the size of each file, and what deleting all but one
+	// would free
+	size: z.number().optional(),
+	reclaimable: z.number().optional(),
+	// Other paths of a listed file (hard links), which free nothing when
+	// deleted and are not counted as copies
+	hardLinks: z.record(z.string(), z.array(z.string())).optional(),
+	// Similar groups: the lowest estimated similarity between linked files
+	similarity: z.number().optional(),
+});
+
+export const FindDuplicatesResultSchema = z.object({
+	groups: z.array(DuplicateGroupSchema),
+	total: z.number(),
+	reclaimable: z.number(),
+	incomplete: z.boolean(),
+	nextCursor: z.string().optional(),
+});
+
+export type DuplicateGroup = z.infer<typeof DuplicateGroupSchema>;
+
+export type FindDuplicatesOptions = z.infer<typeof FindDuplicatesArgsSchema>;
+
+// Files of the same size are first compared by a hash of their first bytes
+// and only read in full when those match
+const HEAD_BYTES = 64 * 1024;
+
+// Near-duplicate detection compares every pair of documents, so it is
+// limited to this many, each no larger than MAX_DOCUMENT_SIZE
+const MAX_DOCUMENTS = 1000;
+const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+// Documents are compared as sets of overlapping word sequences (shingles),
+// estimated with MinHash signatures; shorter documents are not compared
+const SHINGLE_WORDS = 5;
+const MIN_DOCUMENT_WORDS = 20;
+const SIGNATURE_SIZE = 128;
+
+async function hashFile(filePath: string, length?: number): Promise<string> {
+	const hash = createHash("sha1");
+	const stream = createReadStream(
+		filePath,
+		length === undefined ? {} : { end: length - 1 },
+	);
+	for await (const chunk of stream) hash.update(chunk);
+	return hash.digest("hex");
+}
+
+// Split items into groups of two or more sharing a key; items whose key
+// cannot be computed (unreadable files) are dropped
+async function groupBy<T>(
+	items: T[],
+	key: (item: T) => Promise<string> | string,
+): Promise<T[][]> {
+	const groups = new Map<string, T[]>();
+	for (const item of items) {
+		const value = await Promise.resolve()
+			.then(() => key(item))
+			.catch(() => undefined);
+		if (value === undefined) continue;
+		const group = groups.get(value);
+		if (group) group.push(item);
+		else groups.set(value, [item]);
+	}
+	return [...groups.values()].filter((group) => group.length > 1);
+}
+
+// The murmur3 finalizer, used to derive independent 32-bit hashes
+function mix(value: number): number {
+	let h = value;
+	h ^= h >>> 16;
+	h = Math.imul(h, 0x85ebca6b);
+	h ^= h >>> 13;
+	h = Math.imul(h, 0xc2b2ae35);
+	h ^= h >>> 16;
+	return h >>> 0;
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix(i + 1));
+
+function hashString(text: string): number {
+	// FNV-1a
+	let h = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		h ^= text.charCodeAt(i);
+		h = Math.imul(h, 0x01000193);
+	}
+	return h >>> 0;
+}
+
+interface DocumentSignature {
+	path: string;
+	shingleCount: number;
+	minHashes: Uint32Array;
+}
+
+function signDocument(
+	filePath: string,
+	text: string,
+): DocumentSignature | undefined {
+	const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+	if (words.length < MIN_DOCUMENT_WORDS) return;
+	const shingles = new Set<number>();
+	for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+		shingles.add(hashString(words.slice(i, i + SHINGLE_WORDS).join(" ")));
+	}
+	const minHashes = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+	for (const shingle of shingles) {
+		for (let i = 0; i < SIGNATURE_SIZE; i++) {
+			const value = mix(shingle ^ SEEDS[i]);
+			if (value < minHashes[i]) minHashes[i] = value;
+		}
+	}
+	return { path: filePath, shingleCount: shingles.size, minHashes };
+}
+
+// Estimated Jaccard similarity of two documents' shingle sets
+function estimateSimilarity(a: DocumentSignature, b: DocumentSignature) {
+	let equal = 0;
+	for (let i = 0; i < SIGNATURE_SIZE; i++) {
+		if (a.minHashes[i] === b.minHashes[i]) equal++;
+	}
+	return equal / SIGNATURE_SIZE;
+}
+
+async function readDocumentText(filePath: string): Promise<string | undefined> {
+	const mimeType = detectMimeType(await readFileHeader(filePath), filePath);
+	if (mimeType === "application/pdf") {
+		return (await extractPdf(filePath)).pages.join("\n");
+	}
+	if (isOfficeMimeType(mimeType)) {
+		return formatOffice(await extractOffice(filePath));
+	}
+	return decodeTextFile(await readFile(filePath))?.text;
+}
+
+async function findSimilarDocuments(
+	files: FindResult[],
+	threshold: number,
+): Promise<{ groups: DuplicateGroup[]; incomplete: boolean }> {
+	const candidates = files.filter(
+		(file) => file.info.size <= MAX_DOCUMENT_SIZE,
+	);
+	const signatures: DocumentSignature[] = [];
+	for (const file of candidates.slice(0, MAX_DOCUMENTS)) {
+		try {
+			const text = await readDocumentText(file.path);
+			const signature = text && signDocument(file.path, text);
+			if (signature) signatures.push(signature);
+		} catch {}
+	}
+
+	// Link every pair above the threshold; linked documents form a group
+	const parent = signatures.map((_, i) => i);
+	const find = (i: number): number => {
+		let root = i;
+		while (parent[root] !== root) root = parent[root];
+		return root;
+	};
+	const lowest = new Map<number, number>();
+	const links: Array<[number, number, number]> = [];
+	for (let i = 0; i < signatures.length; i++) {
+		for (let j = i + 1; j < signatures.length; j++) {
+			const [small, large] = [
+				signatures[i].shingleCount,
+				signatures[j].shingleCount,
+			].sort((a, b) => a - b);
+			// Jaccard similarity cannot exceed the ratio of the set sizes
+			if (small / large < threshold) continue;
+			const similarity = estimateSimilarity(signatures[i], signatures[j]);
+			if (similarity >= threshold) links.push([i, j, similarity]);
+		}
+	}
+	for (const [i, j] of links) parent[find(i)] = find(j);
+	for (const [i, , similarity] of links) {
+		const root = find(i);
+		lowest.set(root, Math.min(lowest.get(root) ?? 1, similarity));
+	}
+
+	const members = new Map<number, string[]>();
+	signatures.forEach((signature, i) => {
+		if (!lowest.has(find(i))) return;
+		const group = members.get(find(i)) ?? [];
+		group.push(signature.path);
+		members.set(find(i), group);
+	});
+	const groups = [...members.entries()].map(
+		([root, paths]): DuplicateGroup => ({
+			kind: "similar",
+			files: paths.sort(),
+			similarity: lowest.get(root),
+		}),
+	);
+	groups.sort((a, b) => a.files[0].localeCompare(b.files[0]));
+	return { groups, incomplete: candidates.length > MAX_DOCUMENTS };
+}
+
+export async function findDuplicates(
+	rootPath: string,
+	allowedDirectories: AllowedDirectory[],
+	options: FindDuplicatesOptions,
+): Promise<{ groups: DuplicateGroup[]; incomplete: boolean }> {
+	const found = await findFiles(
+		rootPath,
+		allowedDirectories,
+		FindArgsSchema.parse({
+			path: rootPath,
+			type: "file",
+			excludePatterns: options.excludePatterns,
+			respectIgnoreFiles: options.respectIgnoreFiles,
+			minSize: options.minSize,
+		}),
+	);
+
+	// Symlinks and repeated paths to one file are not duplicates of it, and
+	// neither are hard links: each inode is compared once, through the first
+	// path found for it
+	const seen = new Set<string>();
+	const inodes = new Map<string, string>();
+	const hardLinks = new Map<string, string[]>();
+	const files: FindResult[] = [];
+	for (const file of found.results) {
+		const realPath = await realpath(file.path).catch(() => undefined);
+		if (!realPath || seen.has(realPath)) continue;
+		seen.add(realPath);
+		const stats = await stat(realPath).catch(() => undefined);
+		if (!stats) continue;
+		const inode = `${stats.dev}:${stats.ino}`;
+		const first = inodes.get(inode);
+		if (first) {
+			hardLinks.set(first, [...(hardLinks.get(first) ?? []), file.path]);
+			continue;
+		}
+		inodes.set(inode, file.path);
+		files.push(file);
+	}
+
+	const groups: DuplicateGroup[] = [];
+	for (const sameSize of await groupBy(files, (file) => `${file.info.size}`)) {
+		const size = sameSize[0].info.size;
+		for (const sameHead of await groupBy(sameSize, (file) =>
+			hashFile(file.path, HEAD_BYTES),
+		)) {
+			const identical =
+				size <= HEAD_BYTES
+					? [sameHead]
+					: await groupBy(sameHead, (file) => hashFile(file.path));
+			for (const group of identical) {
+				const paths = group.map((file) => file.path).sort();
+				const links = paths.filter((p) => hardLinks.has(p));
+				groups.push({
+					kind: "identical",
+					files: paths,
+					size,
+					reclaimable: size * (group.length - 1),
+					...(links.length > 0 && {
+						hardLinks: Object.fromEntries(
+							links.map((p) => [p, (hardLinks.get(p) ?? []).sort()]),
+						),
+					}),
+				});
+			}
+		}
+	}
+	groups.sort(
+		(a, b) =>
+			(b.reclaimable ?? 0) - (a.reclaimable ?? 0) ||
+			a.files[0].localeCompare(b.files[0]),
+	);
+
+	let incomplete = found.incomplete;
+	if (options.nearDuplicates) {
+		// Only one copy of each identical group needs comparing
+		const copies = new Set(groups.flatMap((group) => group.files.slice(1)));
+		const similar = await findSimilarDocuments(
+			files.filter((file) => !copies.has(file.path)),
+			options.similarity,
+		);
+		groups.push(...similar.groups);
+		incomplete ||= similar.incomplete;
+	}
+	return { groups, incomplete };
+}
+
+function formatGroup(group: DuplicateGroup): string {
+	const heading =
+		group.kind === "identical"
+			? `${group.files.length} identical files of ${formatSize(group.size ?? 0)} (${formatSize(group.reclaimable ?? 0)} reclaimable)`
+			: `${group.files.length} similar documents (at least ~${Math.round((group.similarity ?? 0) * 100)}% alike)`;
+	return [
+		heading,
+		...group.files.flatMap((file) => [
+			`  ${file}`,
+			...(group.hardLinks?.[file] ?? []).map(
+				(link) => `    ${link} (hard link to the same file)`,
+			),
+		]),
+	].join("\n");
+}
+
+// Tool definitions
+export const tools = [
+	{
+		name: "fs_find_duplicates",
+		description:
+			"Find duplicate files under a directory: files are grouped by size and " +
+			"then by content hash, and each group reports how much space deleting " +
+			"all but one copy would free. Hard links to one file are listed with it " +
+			"rather than counted as copies. With nearDuplicates, text files and PDFs " +
+			"whose wording is nearly the same are grouped too. Groups are returned " +
+			"'limit' at a time, largest savings first; pass the returned nextCursor " +
+			"to get the next page. Skips .git, node_modules and files ignored by " +
+			".gitignore or .semanticignore unless respectIgnoreFiles is false. Only " +
+			"searches within allowed directories.",
+		inputSchema: zodToJsonSchema(FindDuplicatesArgsSchema) as ToolInput,
+		outputSchema: zodToJsonSchema(FindDuplicatesResultSchema) as ToolOutput,
+	},
+];
+
+// Tool handlers
+export async function handleTool(
+	name: string,
+	args: Record<string, unknown> | undefined,
+	allowedDirectories: AllowedDirectory[],
+) {
+	switch (name) {
+		case "fs_find_duplicates": {
+			const parsed = FindDuplicatesArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(
+					`Invalid arguments for find_duplicates: ${parsed.error}`,
+				);
+			}
+			const validPath = await validatePath(
+				parsed.data.path,
+				allowedDirectories,
+			);
+			const { groups, incomplete } = await findDuplicates(
+				validPath,
+				allowedDirectories,
+				parsed.data,
+			);
+			const reclaimable = groups.reduce(
+				(total, group) => total + (group.reclaimable ?? 0),
+				0,
+			);
+			const page = paginate(groups, parsed.data);
+
+			const identicalCount = groups.filter(
+				(group) => group.kind === "identical",
+			).length;
+			let summary = `${identicalCount} group(s) of identical files, ${formatSize(reclaimable)} reclaimable`;
+			if (parsed.data.nearDuplicates) {
+				summary += `; ${groups.length - identicalCount} group(s) of similar documents`;
+			}
+			const sections = [summary, ...page.items.map(formatGroup)];
+			if (page.nextCursor) sections.push(describePage(page, "groups"));
+			if (incomplete) {
+				sections.push(
+					"[Not every file was compared; use a narrower path for a complete result]",
+				);
+			}
+			return {
+				content: [{ type: "text", text: sections.join("\n\n") }],
+				structuredContent: {
+					groups: page.items,
+					total: page.total,
+					reclaimable,
+					incomplete,
+					nextCursor: page.nextCursor,
+				},
+			};
+		}
+
+		default:
+			return null;
+	}
+}
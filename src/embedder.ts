@@ -0,0 +1,153 @@
+import { getSettings } from "./settings";
+
+// Embedders turn chunks of text into fixed-length, L2-normalized vectors so
+// the index can rank them by cosine similarity. The default is fully offline;
+// set the embedder setting to ollama:<model> to use a local model instead.
+export interface Embedder {
+	// Stored in the index; changing embedders triggers a rebuild
+	readonly id: string;
+	embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+const STOP_WORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"by",
+	"for",
+	"from",
+	"has",
+	"in",
+	"is",
+	"it",
+	"of",
+	"on",
+	"or",
+	"that",
+	"the",
+	"this",
+	"to",
+	"was",
+	"were",
+	"will",
+	"with",
+]);
+
+export function tokenize(text: string): string[] {
+	return text
+		.replace(/(\p{Ll})(\p{Lu})/gu, "$1 $2")
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+function fnv1a(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+export function normalizeVector(vector: Float32Array): Float32Array {
+	let norm = 0;
+	for (const value of vector) norm += value * value;
+	norm = Math.sqrt(norm);
+	if (norm > 0) {
+		for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+	}
+	return vector;
+}
+
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+	const length = Math.min(a.length, b.length);
+	let dot = 0;
+	for (let i = 0; i < length; i++) dot += a[i] * b[i];
+	return dot;
+}
+
+// Feature-hashed term frequencies over unigrams and bigrams, with sublinear
+// tf weighting. Signed hashing keeps bucket collisions from always adding up.
+export class HashingEmbedder implements Embedder {
+	readonly id: string;
+	readonly dimensions: number;
+
+	constructor(dimensions = 512) {
+		this.dimensions = dimensions;
+		this.id = `hashing-${dimensions}`;
+	}
+
+	async embed(texts: string[]): Promise<Float32Array[]> {
+		return texts.map((text) => this.embedOne(text));
+	}
+
+	private embedOne(text: string): Float32Array {
+		const tokens = tokenize(text);
+		const counts = new Map<string, number>();
+		for (let i = 0; i < tokens.length; i++) {
+			counts.set(tokens[i], (counts.get(tokens[i]) ?? 0) + 1);
+			if (i > 0) {
+				const bigram = `${tokens[i - 1]} ${tokens[i]}`;
+				counts.set(bigram, (counts.get(bigram) ?? 0) + 0.5);
+			}
+		}
+
+		const vector = new Float32Array(this.dimensions);
+		for (const [feature, count] of counts) {
+			const hash = fnv1a(feature);
+			const sign = hash & 0x80000000 ? -1 : 1;
+			vector[hash % this.dimensions] += sign * (1 + Math.log(1 + count));
+		}
+		return normalizeVector(vector);
+	}
+}
+
+// Talks to a local Ollama (or compatible) server's /api/embed endpoint
+export class OllamaEmbedder implements Embedder {
+	readonly id: string;
+	private readonly model: string;
+	private readonly host: string;
+
+	constructor(model: string, host = "http://127.0.0.1:11434") {
+		this.model = model;
+		this.host = host.replace(/\/+$/, "");
+		this.id = `ollama:${model}`;
+	}
+
+	async embed(texts: string[]): Promise<Float32Array[]> {
+		const response = await fetch(`${this.host}/api/embed`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ model: this.model, input: texts }),
+		});
+		if (!response.ok) {
+			throw new Error(
+				`Embedding request to ${this.host} failed: ${response.status} ${await response.text()}`,
+			);
+		}
+		const { embeddings } = (await response.json()) as {
+			embeddings: number[][];
+		};
+		return embeddings.map((embedding) =>
+			normalizeVector(Float32Array.from(embedding)),
+		);
+	}
+}
+
+export function createEmbedder(spec = getSettings().embedder): Embedder {
+	if (spec === "hashing") {
+		return new HashingEmbedder();
+	}
+	if (spec.startsWith("ollama:")) {
+		return new OllamaEmbedder(
+			spec.slice("ollama:".length),
+			process.env.OLLAMA_HOST,
+		);
+	}
+	throw new Error(`Unknown embedder: ${spec}`);
+}
@@ -0,0 +1,109 @@
+import { describe, expect, test } from "bun:test";
+import {
+	decodeTextFile,
+	detectEncoding,
+	detectLineEnding,
+	encodeText,
+	encodeTextFile,
+} from "./encoding";
+
+describe("detectEncoding", () => {
+	test("trusts a byte order mark", () => {
+		expect(detectEncoding(Buffer.from([0xef, 0xbb, 0xbf, 0x61]))).toEqual({
+			encoding: "utf-8",
+			bom: true,
+		});
+		expect(detectEncoding(Buffer.from([0xff, 0xfe, 0x61, 0]))).toEqual({
+			encoding: "utf-16le",
+			bom: true,
+		});
+		expect(detectEncoding(Buffer.from([0xfe, 0xff, 0, 0x61]))).toEqual({
+			encoding: "utf-16be",
+			bom: true,
+		});
+	});
+
+	test("recognizes UTF-16 without a byte order mark by its zero bytes", () => {
+		expect(detectEncoding(encodeText("plain text\n", "utf-16le"))).toEqual({
+			encoding: "utf-16le",
+			bom: false,
+		});
+		expect(detectEncoding(encodeText("plain text\n", "utf-16be"))).toEqual({
+			encoding: "utf-16be",
+			bom: false,
+		});
+	});
+
+	test("tells UTF-8 from windows-1252", () => {
+		expect(detectEncoding(Buffer.from("café €5\n"))?.encoding).toBe("utf-8");
+		expect(
+			detectEncoding(encodeText("café €5\n", "windows-1252"))?.encoding,
+		).toBe("windows-1252");
+	});
+
+	test("accepts UTF-8 cut off in the middle of a character", () => {
+		const bytes = Buffer.from("price: €");
+		expect(detectEncoding(bytes.subarray(0, bytes.length - 1))?.encoding).toBe(
+			"utf-8",
+		);
+	});
+
+	test("rejects binary data", () => {
+		expect(
+			detectEncoding(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0x0d, 1])),
+		).toBeUndefined();
+		expect(
+			detectEncoding(Buffer.from([1, 2, 3, 4, 5, 6, 7, 8])),
+		).toBeUndefined();
+	});
+});
+
+describe("detectLineEnding", () => {
+	test("picks the more common line ending", () => {
+		expect(detectLineEnding("a\r\nb\r\nc\n")).toBe("\r\n");
+		expect(detectLineEnding("a\nb\nc\r\n")).toBe("\n");
+		expect(detectLineEnding("no line ending")).toBe("\n");
+	});
+});
+
+describe("text files", () => {
+	test("round-trips windows-1252 with CRLF line endings", () => {
+		const original = encodeText(
+			"Café – “quoted” €5\r\nnaïve\r\n",
+			"windows-1252",
+		);
+		const file = decodeTextFile(original);
+		expect(file?.text).toBe("Café – “quoted” €5\r\nnaïve\r\n");
+		expect(file?.format).toEqual({
+			encoding: "windows-1252",
+			bom: false,
+			lineEnding: "\r\n",
+		});
+		if (!file) return;
+		expect(encodeTextFile(file.text, file.format)).toEqual(original);
+		expect(encodeTextFile("Café\nnaïve\n", file.format)).toEqual(
+			encodeText("Café\r\nnaïve\r\n", "windows-1252"),
+		);
+	});
+
+	test("keeps a byte order mark", () => {
+		const original = Buffer.concat([
+			Buffer.from([0xff, 0xfe]),
+			encodeText("héllo\n", "utf-16le"),
+		]);
+		const file = decodeTextFile(original);
+		expect(file?.text).toBe("héllo\n");
+		if (!file) return;
+		expect(encodeTextFile(file.text, file.format)).toEqual(original);
+	});
+
+	test("refuses characters windows-1252 cannot hold", () => {
+		expect(() => encodeText("日本", "windows-1252")).toThrow("Cannot write");
+	});
+
+	test("returns undefined for binary data unless an encoding is given", () => {
+		const bytes = Buffer.from([0, 0, 1, 0x41]);
+		expect(decodeTextFile(bytes)).toBeUndefined();
+		expect(decodeTextFile(bytes, "windows-1252")?.text).toBe("\0\0\x01A");
+	});
+});
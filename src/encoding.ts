@@ -0,0 +1,204 @@
+import { z } from "zod";
+
+export const TEXT_ENCODINGS = [
+	"utf-8",
+	"utf-16le",
+	"utf-16be",
+	"windows-1252",
+] as const;
+
+export type TextEncoding = (typeof TEXT_ENCODINGS)[number];
+
+export const EncodingSchema = z
+	.enum(TEXT_ENCODINGS)
+	.optional()
+	.describe(
+		"Text encoding to use instead of detecting it; windows-1252 also covers Latin-1",
+	);
+
+export type LineEnding = "\n" | "\r\n";
+
+// Everything needed to write a text file back the way it was read
+export interface TextFormat {
+	encoding: TextEncoding;
+	bom: boolean;
+	lineEnding: LineEnding;
+}
+
+export interface TextFile {
+	text: string;
+	format: TextFormat;
+}
+
+// The binary heuristics only look at this many leading bytes
+export const SNIFF_LENGTH = 8000;
+
+const BOMS: Array<{ encoding: TextEncoding; bytes: number[] }> = [
+	{ encoding: "utf-8", bytes: [0xef, 0xbb, 0xbf] },
+	{ encoding: "utf-16le", bytes: [0xff, 0xfe] },
+	{ encoding: "utf-16be", bytes: [0xfe, 0xff] },
+];
+
+export function bomLength(buffer: Uint8Array, encoding: TextEncoding): number {
+	const bom = BOMS.find((candidate) => candidate.encoding === encoding);
+	if (!bom || buffer.length < bom.bytes.length) return 0;
+	return bom.bytes.every((byte, i) => buffer[i] === byte)
+		? bom.bytes.length
+		: 0;
+}
+
+function isValidUtf8(buffer: Uint8Array): boolean {
+	try {
+		// stream tolerates a sequence cut off at the end of a partial read
+		new TextDecoder("utf-8", { fatal: true }).decode(buffer, { stream: true });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Detect the encoding of text from a byte order mark, or failing that from
+// the pattern of zero bytes (UTF-16) and whether the bytes are valid UTF-8.
+// Returns undefined for anything that looks binary.
+export function detectEncoding(
+	buffer: Uint8Array,
+): { encoding: TextEncoding; bom: boolean } | undefined {
+	for (const bom of BOMS) {
+		if (bomLength(buffer, bom.encoding) > 0) {
+			return { encoding: bom.encoding, bom: true };
+		}
+	}
+
+	const sample = buffer.subarray(0, SNIFF_LENGTH);
+	let evenZeros = 0;
+	let oddZeros = 0;
+	let controls = 0;
+	for (let i = 0; i < sample.length; i++) {
+		const byte = sample[i];
+		if (byte === 0) {
+			if (i % 2 === 0) evenZeros++;
+			else oddZeros++;
+		} else if (
+			(byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte)) ||
+			byte === 0x7f
+		) {
+			controls++;
+		}
+	}
+
+	// Mostly-ASCII UTF-16 has a zero in every other byte, and no others
+	const pairs = sample.length / 2;
+	if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) {
+		return { encoding: "utf-16le", bom: false };
+	}
+	if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) {
+		return { encoding: "utf-16be", bom: false };
+	}
+	if (evenZeros + oddZeros > 0 || controls > sample.length * 0.1) {
+		return undefined;
+	}
+	return {
+		encoding: isValidUtf8(buffer) ? "utf-8" : "windows-1252",
+		bom: false,
+	};
+}
+
+export function detectLineEnding(text: string): LineEnding {
+	const crlf = text.match(/\r\n/g)?.length ?? 0;
+	const lf = (text.match(/\n/g)?.length ?? 0) - crlf;
+	return crlf > lf ? "\r\n" : "\n";
+}
+
+export function decodeText(buffer: Uint8Array, encoding: TextEncoding): string {
+	const bytes = buffer.subarray(bomLength(buffer, encoding));
+	return new TextDecoder(encoding, { ignoreBOM: true }).decode(bytes);
+}
+
+// Decode a whole file, or return undefined if it looks binary and no
+// encoding was given
+export function decodeTextFile(
+	buffer: Uint8Array,
+	encoding?: TextEncoding,
+): TextFile | undefined {
+	const detected = detectEncoding(buffer);
+	if (!encoding && !detected) return undefined;
+	const chosen = encoding ?? detected?.encoding ?? "utf-8";
+	const text = decodeText(buffer, chosen);
+	return {
+		text,
+		format: {
+			encoding: chosen,
+			bom: bomLength(buffer, chosen) > 0,
+			lineEnding: detectLineEnding(text),
+		},
+	};
+}
+
+let windows1252Bytes: Map<string, number> | undefined;
+
+// TextEncoder only writes UTF-8, so the single-byte table is built from what
+// TextDecoder makes of every byte
+function encodeWindows1252(text: string): Buffer {
+	if (!windows1252Bytes) {
+		const decoder = new TextDecoder("windows-1252");
+		windows1252Bytes = new Map();
+		for (let byte = 0; byte < 256; byte++) {
+			windows1252Bytes.set(decoder.decode(new Uint8Array([byte])), byte);
+		}
+	}
+	const bytes = Buffer.alloc(text.length);
+	let length = 0;
+	for (const char of text) {
+		const byte = windows1252Bytes.get(char);
+		if (byte === undefined) {
+			throw new Error(
+				`Cannot write ${JSON.stringify(char)} in windows-1252; pass encoding "utf-8" to convert the file`,
+			);
+		}
+		bytes[length++] = byte;
+	}
+	return bytes.subarray(0, length);
+}
+
+export function encodeText(text: string, encoding: TextEncoding): Buffer {
+	switch (encoding) {
+		case "utf-8":
+			return Buffer.from(text, "utf-8");
+		case "utf-16le":
+			return Buffer.from(text, "utf16le");
+		case "utf-16be":
+			return Buffer.from(text, "utf16le").swap16();
+		case "windows-1252":
+			return encodeWindows1252(text);
+	}
+}
+
+// Encode text for writing in the given format, converting its line endings
+export function encodeTextFile(text: string, format: TextFormat): Buffer {
+	const body = encodeText(
+		text.replace(/\r?\n/g, format.lineEnding),
+		format.encoding,
+	);
+	const bom = format.bom
+		? BOMS.find((candidate) => candidate.encoding === format.encoding)
+		: undefined;
+	return bom ? Buffer.concat([Buffer.from(bom.bytes), body]) : body;
+}
+
+// A hex dump in the style of xxd: offset, 16 bytes in hex, then as ASCII
+export function formatHexPreview(bytes: Uint8Array, offset = 0): string {
+	const lines: string[] = [];
+	for (let start = 0; start < bytes.length; start += 16) {
+		const row = bytes.subarray(start, start + 16);
+		const hex = Array.from(row, (byte) =>
+			byte.toString(16).padStart(2, "0"),
+		).join(" ");
+		const ascii = Array.from(row, (byte) =>
+			byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".",
+		).join("");
+		lines.push(
+			`${(offset + start).toString(16).padStart(8, "0")}  ${hex.padEnd(47)}  |${ascii}|`,
+		);
+	}
+	return lines.join("\n");
+}
@@ -0,0 +1,362 @@
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+import { ToolSchema } from "@modelcontextprotocol/sdk/types.js";
+import { minimatch } from "minimatch";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+	type AllowedDirectory,
+	type FileInfo,
+	FileInfoResultSchema,
+	fileInfoToJson,
+	getFileStats,
+	isExcluded,
+	validatePath,
+} from "./fs";
+import { IgnoreRules } from "./ignore";
+import { detectMimeType, readFileHeader } from "./mime";
+import { CursorSchema, type Page, describePage, paginate } from "./pagination";
+
+const ToolInputSchema = ToolSchema.shape.inputSchema;
+type ToolInput = z.infer<typeof ToolInputSchema>;
+const ToolOutputSchema = ToolSchema.shape.outputSchema.unwrap();
+type ToolOutput = z.infer<typeof ToolOutputSchema>;
+
+const TimeSchema = z
+	.string()
+	.describe("An ISO date such as 2024-05-01, or a duration ago such as 7d");
+
+// Schema definitions
+export const FindArgsSchema = z.object({
+	path: z.string().describe("Directory to search"),
+	type: z.enum(["file", "directory", "any"]).default("any"),
+	includePatterns: z
+		.array(z.string())
+		.optional()
+		.default([])
+		.describe("Only match paths matching these globs, e.g. *.ts or src/**"),
+	excludePatterns: z.array(z.string()).optional().default([]),
+	extensions: z
+		.array(z.string())
+		.optional()
+		.describe("File extensions to match, e.g. ['pdf', 'md']"),
+	mimeTypes: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"MIME types to match, detected from file content, e.g. ['application/pdf', 'image/*']",
+		),
+	minSize: z.number().int().nonnegative().optional().describe("In bytes"),
+	maxSize: z.number().int().nonnegative().optional().describe("In bytes"),
+	modifiedAfter: TimeSchema.optional(),
+	modifiedBefore: TimeSchema.optional(),
+	createdAfter: TimeSchema.optional(),
+	createdBefore: TimeSchema.optional(),
+	maxDepth: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe("How many levels below path to search; 1 is path's own entries"),
+	sortBy: z.enum(["name", "size", "modified"]).default("name"),
+	descending: z.boolean().default(false),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.max(1000)
+		.default(100)
+		.describe("Results per page"),
+	cursor: CursorSchema,
+	respectIgnoreFiles: z
+		.boolean()
+		.default(true)
+		.describe(
+			"Skip .git, node_modules and anything matched by .gitignore or .semanticignore",
+		),
+});
+
+export const FindResultSchema = z.object({
+	results: z.array(
+		FileInfoResultSchema.extend({
+			path: z.string(),
+			mimeType: z.string().optional(),
+		}),
+	),
+	total: z.number(),
+	incomplete: z.boolean(),
+	nextCursor: z.string().optional(),
+});
+
+export type FindOptions = z.infer<typeof FindArgsSchema>;
+
+// The search stops looking after this many entries, however many match
+const MAX_SCANNED_ENTRIES = 100_000;
+
+const DURATION_UNITS: Record<string, number> = {
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+function parseTime(value: string, field: string): number {
+	const duration = /^(\d+(?:\.\d+)?)([mhdw])$/.exec(value.trim());
+	if (duration) {
+		return Date.now() - Number(duration[1]) * DURATION_UNITS[duration[2]];
+	}
+	const time = Date.parse(value);
+	if (Number.isNaN(time)) {
+		throw new Error(
+			`Invalid ${field}: ${value}. Use an ISO date such as 2024-05-01 or a duration such as 7d`,
+		);
+	}
+	return time;
+}
+
+function timeRange(
+	after: string | undefined,
+	before: string | undefined,
+	field: string,
+): (date: Date) => boolean {
+	const from =
+		after === undefined
+			? Number.NEGATIVE_INFINITY
+			: parseTime(after, `${field}After`);
+	const to =
+		before === undefined
+			? Number.POSITIVE_INFINITY
+			: parseTime(before, `${field}Before`);
+	return (date) => date.getTime() >= from && date.getTime() <= to;
+}
+
+export interface FindResult {
+	path: string;
+	info: FileInfo;
+	mimeType?: string;
+}
+
+export interface FindResults {
+	// Every match, sorted
+	results: FindResult[];
+	// Set when MAX_SCANNED_ENTRIES was reached before the walk finished
+	incomplete: boolean;
+}
+
+export async function findFiles(
+	rootPath: string,
+	allowedDirectories: AllowedDirectory[],
+	options: FindOptions,
+): Promise<FindResults> {
+	const ignoreRules = options.respectIgnoreFiles
+		? await IgnoreRules.forRoot(rootPath)
+		: undefined;
+	const extensions = options.extensions?.map((extension) =>
+		`.${extension.replace(/^\./, "")}`.toLowerCase(),
+	);
+	const modifiedInRange = timeRange(
+		options.modifiedAfter,
+		options.modifiedBefore,
+		"modified",
+	);
+	const createdInRange = timeRange(
+		options.createdAfter,
+		options.createdBefore,
+		"created",
+	);
+
+	const matches: FindResult[] = [];
+	let scanned = 0;
+	let incomplete = false;
+	// Real paths of directories already searched, so symlink cycles end
+	const visited = new Set<string>([rootPath]);
+
+	async function matchEntry(
+		fullPath: string,
+		relativePath: string,
+		info: FileInfo,
+	): Promise<FindResult | undefined> {
+		if (options.type === "file" && !info.isFile) return;
+		if (options.type === "directory" && !info.isDirectory) return;
+		if (
+			options.includePatterns.length > 0 &&
+			!options.includePatterns.some((pattern) =>
+				minimatch(relativePath, pattern, { dot: true, matchBase: true }),
+			)
+		) {
+			return;
+		}
+		if (
+			extensions &&
+			!extensions.includes(path.extname(fullPath).toLowerCase())
+		) {
+			return;
+		}
+		if (options.minSize !== undefined && info.size < options.minSize) return;
+		if (options.maxSize !== undefined && info.size > options.maxSize) return;
+		if (!modifiedInRange(info.modified) || !createdInRange(info.created)) {
+			return;
+		}
+
+		const result: FindResult = { path: fullPath, info };
+		// Content is only read for candidates that passed every other filter
+		if (options.mimeTypes) {
+			if (!info.isFile) return;
+			result.mimeType = detectMimeType(
+				await readFileHeader(fullPath),
+				fullPath,
+			);
+			const mimeType = result.mimeType;
+			if (
+				!options.mimeTypes.some((pattern) =>
+					pattern.endsWith("/*")
+						? mimeType.startsWith(pattern.slice(0, -1))
+						: mimeType === pattern,
+				)
+			) {
+				return;
+			}
+		}
+		return result;
+	}
+
+	async function search(dirPath: string, depth: number) {
+		for (const entry of await readdir(dirPath)) {
+			if (scanned >= MAX_SCANNED_ENTRIES) {
+				incomplete = true;
+				return;
+			}
+			scanned++;
+			const fullPath = path.join(dirPath, entry);
+			try {
+				const realPath = await validatePath(fullPath, allowedDirectories);
+				const relativePath = path.relative(rootPath, fullPath);
+				if (isExcluded(relativePath, options.excludePatterns)) continue;
+
+				const info = await getFileStats(fullPath);
+				if (await ignoreRules?.ignores(fullPath, info.isDirectory)) continue;
+
+				const match = await matchEntry(fullPath, relativePath, info);
+				if (match) matches.push(match);
+
+				if (
+					info.isDirectory &&
+					(options.maxDepth === undefined || depth < options.maxDepth) &&
+					!visited.has(realPath)
+				) {
+					visited.add(realPath);
+					await search(fullPath, depth + 1);
+				}
+			} catch {}
+		}
+	}
+
+	await search(rootPath, 1);
+
+	const direction = options.descending ? -1 : 1;
+	matches.sort((a, b) => {
+		let order = 0;
+		if (options.sortBy === "size") order = a.info.size - b.info.size;
+		else if (options.sortBy === "modified") {
+			order = a.info.modified.getTime() - b.info.modified.getTime();
+		} else {
+			order = path.basename(a.path).localeCompare(path.basename(b.path));
+		}
+		return direction * (order || a.path.localeCompare(b.path));
+	});
+	return { results: matches, incomplete };
+}
+
+// One row per match, with the metadata fs_get_file_info reports
+export function formatFindResults(
+	page: Page<FindResult>,
+	incomplete: boolean,
+): string {
+	if (page.total === 0) {
+		return incomplete
+			? `No matches in the first ${MAX_SCANNED_ENTRIES} entries; use a narrower path`
+			: "No matches found";
+	}
+	const lines = page.items.map(({ path: filePath, info, mimeType }) => {
+		const fields = [
+			info.isDirectory ? "[DIR]" : "[FILE]",
+			filePath,
+			`size=${info.size}`,
+			`modified=${info.modified.toISOString()}`,
+			`created=${info.created.toISOString()}`,
+			`accessed=${info.accessed.toISOString()}`,
+			`permissions=${info.permissions}`,
+		];
+		if (mimeType) fields.push(`mimeType=${mimeType}`);
+		return fields.join(" ");
+	});
+	if (page.nextCursor) lines.push(describePage(page, "matches"));
+	if (incomplete) {
+		lines.push(
+			`[Stopped after ${MAX_SCANNED_ENTRIES} entries; use a narrower path or a smaller maxDepth]`,
+		);
+	}
+	return lines.join("\n");
+}
+
+// Tool definitions
+export const tools = [
+	{
+		name: "fs_find",
+		description:
+			"Find files and directories by their metadata: type, extension, MIME " +
+			"type (detected from content), size range, modification and creation " +
+			"dates, path globs and depth. Dates are ISO dates or durations such as " +
+			"'7d' (7 days ago); sizes are in bytes. Results are sorted by name, size " +
+			"or modification time and carry the same metadata as fs_get_file_info. " +
+			"They are returned 'limit' at a time; pass the returned nextCursor to " +
+			"get the next page. Skips .git, node_modules and files ignored by " +
+			".gitignore or .semanticignore unless respectIgnoreFiles is false. Only " +
+			"searches within allowed directories.",
+		inputSchema: zodToJsonSchema(FindArgsSchema) as ToolInput,
+		outputSchema: zodToJsonSchema(FindResultSchema) as ToolOutput,
+	},
+];
+
+// Tool handlers
+export async function handleTool(
+	name: string,
+	args: Record<string, unknown> | undefined,
+	allowedDirectories: AllowedDirectory[],
+) {
+	switch (name) {
+		case "fs_find": {
+			const parsed = FindArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for find: ${parsed.error}`);
+			}
+			const validPath = await validatePath(
+				parsed.data.path,
+				allowedDirectories,
+			);
+			const found = await findFiles(validPath, allowedDirectories, parsed.data);
+			const page = paginate(found.results, parsed.data);
+			return {
+				content: [
+					{
+						type: "text",
+						text: formatFindResults(page, found.incomplete),
+					},
+				],
+				structuredContent: {
+					results: page.items.map((result) => ({
+						path: result.path,
+						...fileInfoToJson(result.info),
+						mimeType: result.mimeType,
+					})),
+					total: page.total,
+					incomplete: found.incomplete,
+					nextCursor: page.nextCursor,
+				},
+			};
+		}
+
+		default:
+			return null;
+	}
+}
@@ -1,8 +1,11 @@
+import { randomUUID } from "node:crypto";
 import {
-	mkdir,
+	chmod,
+	lstat,
 	readFile,
 	readdir,
-	realpath,
+	readlink,
+	rename,
 	rm,
 	stat,
 	writeFile,
@@ -14,22 +17,200 @@ import { createTwoFilesPatch } from "diff";
 import { minimatch } from "minimatch";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+	type ArchiveLocation,
+	detectArchiveFormat,
+	findArchiveEntry,
+	joinArchivePath,
+	listArchiveDirectory,
+	locateArchiveEntry,
+	readArchiveEntry,
+} from "./archive";
+import {
+	EncodingSchema,
+	SNIFF_LENGTH,
+	TEXT_ENCODINGS,
+	type TextEncoding,
+	type TextFile,
+	type TextFormat,
+	decodeText,
+	decodeTextFile,
+	detectEncoding,
+	detectLineEnding,
+	encodeTextFile,
+	formatHexPreview,
+} from "./encoding";
+import { IgnoreRules } from "./ignore";
+import {
+	type ImageInfo,
+	type ImageLimits,
+	getImageInfo,
+	readImageContent,
+} from "./image";
+import { type JournalChange, getJournal, makeDirectories } from "./journal";
+import { detectMimeType, readFileHeader } from "./mime";
+import {
+	type TableFormat,
+	extractOffice,
+	formatOffice,
+	isOfficeMimeType,
+} from "./office";
+import { getOutline, locateSymbol, parseSource } from "./outline";
+import {
+	CursorSchema,
+	decodeCursor,
+	describePage,
+	encodeCursor,
+	paginate,
+} from "./pagination";
+import {
+	isCaseSensitive,
+	isPathWithin,
+	relativeWithin,
+	resolveRealPath,
+	resolveRoot,
+} from "./path-policy";
+import { extractPdf, formatPdf } from "./pdf";
+import {
+	type ReadRange,
+	hasByteRange,
+	hasLineRange,
+	readByteRange,
+	readLineRange,
+	sliceLines,
+	validateRange,
+} from "./range";
+import { getSettings } from "./settings";
+import { copyPath, movePath, pathExists } from "./transfer";
+import { getTrash } from "./trash";
 
 const ToolInputSchema = ToolSchema.shape.inputSchema;
 type ToolInput = z.infer<typeof ToolInputSchema>;
+const ToolOutputSchema = ToolSchema.shape.outputSchema.unwrap();
+type ToolOutput = z.infer<typeof ToolOutputSchema>;
 
 // Schema definitions
-export const ReadFileArgsSchema = z.object({
-	path: z.string(),
+export const ReadRangeArgsSchema = z.object({
+	offset: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe("Line to start reading from, counting from 1"),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe("Number of lines to read from offset"),
+	head: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe("Read only the first N lines"),
+	tail: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe("Read only the last N lines"),
+	byteOffset: z
+		.number()
+		.int()
+		.nonnegative()
+		.optional()
+		.describe("For text files, the byte to start reading from"),
+	byteLength: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe(
+			"For text files, the number of bytes to read, at most the maxReadSize setting",
+		),
+	maxChars: z
+		.number()
+		.int()
+		.positive()
+		.optional()
+		.describe(
+			"Return at most this many characters; a marker says how to read the rest",
+		),
 });
 
-export const ReadMultipleFilesArgsSchema = z.object({
-	paths: z.array(z.string()),
-});
+const TableFormatSchema = z
+	.enum(["markdown", "csv"])
+	.optional()
+	.describe("How spreadsheets are rendered; markdown by default");
+
+export const ReadFileArgsSchema = z
+	.object({
+		path: z.string(),
+		symbol: z
+			.string()
+			.optional()
+			.describe(
+				"For TypeScript and JavaScript, read only this declaration, e.g. 'handleTool' or 'Indexer.reindex'",
+			),
+		pages: z
+			.string()
+			.optional()
+			.describe(
+				"For PDFs and presentations, the pages or slides to read, e.g. '1-5', '2,4,10-12' or '20-'",
+			),
+		sheet: z
+			.string()
+			.optional()
+			.describe(
+				"For spreadsheets, the sheet to read, by name or 1-based number",
+			),
+		tableFormat: TableFormatSchema,
+		maxBytes: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe("Images larger than this are described instead of returned"),
+		maxDimension: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe("Images wider or taller than this are described instead"),
+		encoding: EncodingSchema,
+	})
+	.merge(ReadRangeArgsSchema);
+
+export const ReadMultipleFilesArgsSchema = z
+	.object({
+		paths: z.array(z.string()),
+		maxBytes: z.number().int().positive().optional(),
+		maxDimension: z.number().int().positive().optional(),
+		encoding: EncodingSchema,
+		tableFormat: TableFormatSchema,
+	})
+	.merge(ReadRangeArgsSchema)
+	.extend({
+		maxChars: z
+			.number()
+			.int()
+			.positive()
+			.optional()
+			.describe(
+				"Total characters to return, shared by all files in the order given",
+			),
+	});
 
 export const WriteFileArgsSchema = z.object({
 	path: z.string(),
 	content: z.string(),
+	encoding: z
+		.enum(TEXT_ENCODINGS)
+		.optional()
+		.describe(
+			"Encoding to write; defaults to the existing file's, or utf-8 for a new file",
+		),
 });
 
 export const EditOperation = z.object({
@@ -46,29 +227,216 @@ export const EditFileArgsSchema = z.object({
 		.describe("Preview changes using git-style diff format"),
 });
 
+export const EditFilesArgsSchema = z.object({
+	files: z
+		.array(
+			z.object({
+				path: z.string(),
+				edits: z.array(EditOperation),
+			}),
+		)
+		.min(1),
+	dryRun: z
+		.boolean()
+		.default(false)
+		.describe("Preview the combined diff without writing any file"),
+});
+
 export const CreateDirectoryArgsSchema = z.object({
 	path: z.string(),
 });
 
 export const ListDirectoryArgsSchema = z.object({
 	path: z.string(),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.max(5000)
+		.default(1000)
+		.describe("Entries per page"),
+	cursor: CursorSchema,
 });
 
 export const MoveFileArgsSchema = z.object({
 	source: z.string(),
 	destination: z.string(),
+	overwrite: z
+		.boolean()
+		.default(false)
+		.describe(
+			"Replace an existing destination, which is moved to the trash first",
+		),
+});
+
+export const CopyArgsSchema = z.object({
+	source: z.string(),
+	destination: z.string(),
+	overwrite: z
+		.boolean()
+		.default(false)
+		.describe(
+			"Replace an existing destination, which is moved to the trash first",
+		),
+});
+
+export const DeleteArgsSchema = z.object({
+	path: z.string(),
+	recursive: z
+		.boolean()
+		.default(false)
+		.describe("Required to delete a directory that is not empty"),
+});
+
+export const EmptyTrashArgsSchema = z.object({
+	olderThanDays: z
+		.number()
+		.positive()
+		.optional()
+		.describe("Only remove items deleted more than this many days ago"),
 });
 
 export const SearchFilesArgsSchema = z.object({
 	path: z.string(),
 	pattern: z.string(),
 	excludePatterns: z.array(z.string()).optional().default([]),
+	respectIgnoreFiles: z
+		.boolean()
+		.default(true)
+		.describe(
+			"Skip .git, node_modules and anything matched by .gitignore or .semanticignore",
+		),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.max(5000)
+		.default(500)
+		.describe("Paths per page"),
+	cursor: CursorSchema,
 });
 
 export const GetFileInfoArgsSchema = z.object({
 	path: z.string(),
 });
 
+export const GrepArgsSchema = z.object({
+	path: z.string().describe("File or directory to search"),
+	pattern: z.string(),
+	regex: z
+		.boolean()
+		.default(false)
+		.describe("Treat pattern as a JavaScript regular expression"),
+	caseSensitive: z.boolean().default(false),
+	includePatterns: z
+		.array(z.string())
+		.optional()
+		.default([])
+		.describe("Only search files matching these globs, e.g. *.ts"),
+	excludePatterns: z.array(z.string()).optional().default([]),
+	respectIgnoreFiles: z
+		.boolean()
+		.default(true)
+		.describe(
+			"Skip .git, node_modules and anything matched by .gitignore or .semanticignore",
+		),
+	contextLines: z.number().int().min(0).max(20).default(0),
+	limit: z
+		.number()
+		.int()
+		.positive()
+		.default(200)
+		.describe("Matching lines per page"),
+	cursor: CursorSchema,
+});
+
+// Structured results, declared as the tools' output schemas. Dates are ISO
+// strings.
+export const FileInfoResultSchema = z.object({
+	size: z.number(),
+	created: z.string(),
+	modified: z.string(),
+	accessed: z.string(),
+	isDirectory: z.boolean(),
+	isFile: z.boolean(),
+	permissions: z.string(),
+});
+
+// Archive entries only record some of this: no creation or access times, and
+// directories implied by their contents no modification time either
+export const GetFileInfoResultSchema = FileInfoResultSchema.partial({
+	created: true,
+	modified: true,
+	accessed: true,
+	permissions: true,
+}).extend({
+	mimeType: z.string().optional(),
+	format: z.string().optional(),
+	width: z.number().optional(),
+	height: z.number().optional(),
+	compressedSize: z.number().optional(),
+	linkTarget: z.string().optional(),
+});
+
+export const ListDirectoryResultSchema = z.object({
+	entries: z.array(
+		z.object({
+			name: z.string(),
+			type: z.enum(["file", "directory", "symlink"]),
+			// Entries inside archives only
+			size: z.number().optional(),
+			compressedSize: z.number().optional(),
+			modified: z.string().optional(),
+			linkTarget: z.string().optional(),
+		}),
+	),
+	total: z.number(),
+	nextCursor: z.string().optional(),
+});
+
+export const SearchFilesResultSchema = z.object({
+	paths: z.array(z.string()),
+	total: z.number(),
+	nextCursor: z.string().optional(),
+});
+
+export const GrepResultSchema = z.object({
+	files: z.array(
+		z.object({
+			path: z.string(),
+			matches: z.array(
+				z.object({
+					line: z.number(),
+					text: z.string(),
+					context: z.boolean(),
+				}),
+			),
+		}),
+	),
+	nextCursor: z.string().optional(),
+});
+
+export interface GrepMatch {
+	line: number;
+	text: string;
+	context: boolean;
+}
+
+export interface GrepFileResult {
+	path: string;
+	matches: GrepMatch[];
+}
+
+export type Operation = "read" | "write";
+
+export interface AllowedDirectory {
+	// Normalized absolute path
+	path: string;
+	mode: "read" | "write";
+	// Globs, relative to path, that stay off limits even inside the directory
+	deny: string[];
+}
+
 export interface FileInfo {
 	size: number;
 	created: Date;
@@ -81,7 +449,7 @@ export interface FileInfo {
 
 // Utility functions
 export function normalizePath(p: string): string {
-	return path.normalize(p).toLowerCase();
+	return path.normalize(p);
 }
 
 export function expandHome(filepath: string): string {
@@ -95,57 +463,154 @@ export function normalizeLineEndings(text: string): string {
 	return text.replace(/\r\n/g, "\n");
 }
 
+export function isExcluded(
+	relativePath: string,
+	excludePatterns: string[],
+): boolean {
+	return excludePatterns.some((pattern) => {
+		if (pattern.includes("*")) {
+			return minimatch(relativePath, pattern, { dot: true });
+		}
+		// Bare names exclude the matching entry itself and everything below it
+		return (
+			minimatch(relativePath, `**/${pattern}`, { dot: true }) ||
+			minimatch(relativePath, `**/${pattern}/**`, { dot: true })
+		);
+	});
+}
+
 // Core filesystem functions
+export function describeAllowedDirectory(dir: AllowedDirectory): string {
+	return dir.mode === "read" ? `${dir.path} (read-only)` : dir.path;
+}
+
+// The most specific allowed directory containing a path decides its access
+// mode and deny rules. Directories match both as configured and resolved.
+async function checkAccess(
+	absolutePath: string,
+	allowedDirectories: AllowedDirectory[],
+	operation: Operation,
+) {
+	let match: { dir: AllowedDirectory; root: string } | undefined;
+	for (const dir of allowedDirectories) {
+		const caseSensitive = await isCaseSensitive(dir.path);
+		for (const root of [dir.path, await resolveRoot(dir.path)]) {
+			if (
+				isPathWithin(root, absolutePath, caseSensitive) &&
+				(!match || root.length > match.root.length)
+			) {
+				match = { dir, root };
+			}
+		}
+	}
+	if (!match) {
+		throw new Error(
+			`Access denied - path outside allowed directories: ${absolutePath} not in ${allowedDirectories.map(describeAllowedDirectory).join(", ")}`,
+		);
+	}
+
+	const { dir, root } = match;
+	const relativePath = relativeWithin(root, absolutePath);
+	if (relativePath && isExcluded(relativePath, dir.deny)) {
+		throw new Error(
+			`Access denied - ${absolutePath} matches a deny rule of ${dir.path}`,
+		);
+	}
+	if (operation === "write" && dir.mode !== "write") {
+		throw new Error(
+			`Access denied - ${dir.path} is read-only, cannot modify ${absolutePath}`,
+		);
+	}
+}
+
 export async function validatePath(
 	requestedPath: string,
-	allowedDirectories: string[],
+	allowedDirectories: AllowedDirectory[],
+	operation: Operation = "read",
 ): Promise<string> {
 	const expandedPath = expandHome(requestedPath);
+	// The archive is checked; entries inside it can be read but not changed
+	const inArchive = await locateArchiveEntry(expandedPath);
+	if (inArchive) {
+		if (operation === "write") {
+			throw new Error(
+				`Cannot modify ${requestedPath}: entries inside archives are read-only`,
+			);
+		}
+		return joinArchivePath(
+			await validatePath(inArchive.archivePath, allowedDirectories, operation),
+			inArchive.entryName,
+		);
+	}
 	const absolute = path.isAbsolute(expandedPath)
 		? path.resolve(expandedPath)
 		: path.resolve(process.cwd(), expandedPath);
 
-	const normalizedRequested = normalizePath(absolute);
+	await checkAccess(absolute, allowedDirectories, operation);
 
-	const isAllowed = allowedDirectories.some((dir) =>
-		normalizedRequested.startsWith(dir),
-	);
-	if (!isAllowed) {
-		throw new Error(
-			`Access denied - path outside allowed directories: ${absolute} not in ${allowedDirectories.join(", ")}`,
-		);
-	}
+	// Symlinks anywhere along the path, including ancestors of files that do
+	// not exist yet, must lead somewhere the operation is allowed too
+	const realPath = await resolveRealPath(absolute);
+	await checkAccess(realPath, allowedDirectories, operation);
+	return realPath;
+}
 
-	try {
-		const realPath = await realpath(absolute);
-		const normalizedReal = normalizePath(realPath);
-		const isRealPathAllowed = allowedDirectories.some((dir) =>
-			normalizedReal.startsWith(dir),
-		);
-		if (!isRealPathAllowed) {
+// Moving or deleting a symlink acts on the link itself rather than on what it
+// points to, so only the parent directory is resolved
+async function validateEntryPath(
+	requestedPath: string,
+	allowedDirectories: AllowedDirectory[],
+): Promise<string> {
+	const validPath = await validatePath(
+		requestedPath,
+		allowedDirectories,
+		"write",
+	);
+	for (const dir of allowedDirectories) {
+		if (validPath === (await resolveRoot(dir.path))) {
 			throw new Error(
-				"Access denied - symlink target outside allowed directories",
+				`Cannot move or delete ${dir.path}, it is an allowed directory`,
 			);
 		}
-		return realPath;
-	} catch (error) {
-		const parentDir = path.dirname(absolute);
-		try {
-			const realParentPath = await realpath(parentDir);
-			const normalizedParent = normalizePath(realParentPath);
-			const isParentAllowed = allowedDirectories.some((dir) =>
-				normalizedParent.startsWith(dir),
-			);
-			if (!isParentAllowed) {
-				throw new Error(
-					"Access denied - parent directory outside allowed directories",
-				);
-			}
-			return absolute;
-		} catch {
-			throw new Error(`Parent directory does not exist: ${parentDir}`);
-		}
 	}
+	const absolute = path.resolve(expandHome(requestedPath));
+	const parent = await validatePath(
+		path.dirname(absolute),
+		allowedDirectories,
+		"write",
+	);
+	return path.join(parent, path.basename(absolute));
+}
+
+export function fileInfoToJson(
+	info: FileInfo,
+): z.infer<typeof FileInfoResultSchema> {
+	return {
+		...info,
+		created: info.created.toISOString(),
+		modified: info.modified.toISOString(),
+		accessed: info.accessed.toISOString(),
+	};
+}
+
+// What an archive's index records about one of its entries
+async function getArchiveEntryInfo(
+	location: ArchiveLocation,
+): Promise<z.infer<typeof GetFileInfoResultSchema>> {
+	const entry = await findArchiveEntry(location);
+	return {
+		size: entry.size,
+		compressedSize: entry.compressedSize,
+		modified:
+			entry.modified.getTime() > 0 ? entry.modified.toISOString() : undefined,
+		isDirectory: entry.type === "directory",
+		isFile: entry.type === "file",
+		permissions:
+			entry.mode === undefined
+				? undefined
+				: (entry.mode & 0o777).toString(8).padStart(3, "0"),
+		linkTarget: entry.linkTarget,
+	};
 }
 
 export async function getFileStats(filePath: string): Promise<FileInfo> {
@@ -164,42 +629,46 @@ export async function getFileStats(filePath: string): Promise<FileInfo> {
 export async function searchFiles(
 	rootPath: string,
 	pattern: string,
-	allowedDirectories: string[],
+	allowedDirectories: AllowedDirectory[],
 	excludePatterns: string[] = [],
+	respectIgnoreFiles = true,
 ): Promise<string[]> {
 	const results: string[] = [];
+	const ignoreRules = respectIgnoreFiles
+		? await IgnoreRules.forRoot(rootPath)
+		: undefined;
 
+	// Real paths of directories already searched, so symlink cycles end
+	const visited = new Set<string>([rootPath]);
+
+	// Entries are visited in name order so that pages of results are stable
 	async function search(currentPath: string) {
-		const entries = await readdir(currentPath);
+		const entries = (await readdir(currentPath)).sort();
 		if (!entries) return;
 
 		for (const entry of entries) {
 			const fullPath = path.join(currentPath, entry);
 
 			try {
-				await validatePath(fullPath, allowedDirectories);
+				const realPath = await validatePath(fullPath, allowedDirectories);
 
 				const relativePath = path.relative(rootPath, fullPath);
-				const shouldExclude = excludePatterns.some((pattern) => {
-					const globPattern = pattern.includes("*")
-						? pattern
-						: `**/${pattern}/**`;
-					return minimatch(relativePath, globPattern, { dot: true });
-				});
+				if (isExcluded(relativePath, excludePatterns)) continue;
 
-				if (shouldExclude) return;
+				const stats = await stat(fullPath);
+				if (await ignoreRules?.ignores(fullPath, stats.isDirectory())) {
+					continue;
+				}
 
 				if (entry.toLowerCase().includes(pattern.toLowerCase())) {
 					results.push(fullPath);
 				}
 
-				const stats = await stat(fullPath);
-				if (stats.isDirectory()) {
+				if (stats.isDirectory() && !visited.has(realPath)) {
+					visited.add(realPath);
 					await search(fullPath);
 				}
-			} catch {
-				return;
-			}
+			} catch {}
 		}
 	}
 
@@ -207,26 +676,443 @@ export async function searchFiles(
 	return results;
 }
 
-export async function applyFileEdits(
+// Archives are only searched when asked to; a search of a directory lists
+// them like any other file
+export async function searchArchive(
+	location: ArchiveLocation,
+	pattern: string,
+	excludePatterns: string[] = [],
+): Promise<string[]> {
+	const base = joinArchivePath(
+		location.archivePath,
+		location.entryName ? `${location.entryName}/` : "",
+	);
+	return (await listArchiveDirectory(location, true))
+		.filter(
+			(entry) =>
+				!isExcluded(entry.name, excludePatterns) &&
+				path.posix
+					.basename(entry.name)
+					.toLowerCase()
+					.includes(pattern.toLowerCase()),
+		)
+		.map((entry) => `${base}${entry.name}`);
+}
+
+export type FileContent =
+	| { type: "text"; text: string }
+	| { type: "image"; data: string; mimeType: string };
+
+// Documents and whole text files are loaded at once, so the maxReadSize
+// setting keeps a single read from loading something huge
+export async function checkReadSize(filePath: string, hint?: string) {
+	const { size } = await stat(filePath);
+	const { maxReadSize } = getSettings();
+	if (size > maxReadSize) {
+		const message = `${filePath} is ${size} bytes, more than the maxReadSize setting of ${maxReadSize}`;
+		throw new Error(hint ? `${message}; ${hint}` : message);
+	}
+}
+
+const BINARY_PREVIEW_LENGTH = 64;
+
+// Binary files are described instead of being decoded into garbage
+function describeBinaryFile(
 	filePath: string,
-	edits: Array<{ oldText: string; newText: string }>,
-	dryRun = false,
+	header: Uint8Array,
+	mimeType: string,
+	size: number,
+): string {
+	const preview = header.subarray(0, BINARY_PREVIEW_LENGTH);
+	return [
+		`Binary file: ${filePath}`,
+		`type: ${mimeType.startsWith("text/") ? "application/octet-stream" : mimeType}`,
+		`size: ${size} bytes`,
+		`first ${preview.length} bytes:`,
+		formatHexPreview(preview),
+		"Pass an encoding to read it as text anyway.",
+	].join("\n");
+}
+
+// Read a file for the model: plain text as-is, documents such as PDFs as
+// extracted text and images as image content. Line ranges and maxChars apply
+// to any text that is returned; byte ranges only to text files.
+export async function readFileContent(
+	filePath: string,
+	options: {
+		pages?: string;
+		sheet?: string;
+		tableFormat?: TableFormat;
+		symbol?: string;
+		encoding?: TextEncoding;
+	} & ImageLimits &
+		ReadRange = {},
+): Promise<FileContent> {
+	validateRange(options);
+	const inArchive = await locateArchiveEntry(filePath);
+	if (inArchive) {
+		return readArchiveEntryContent(filePath, inArchive, options);
+	}
+	if (options.symbol !== undefined) {
+		return { type: "text", text: await readSymbol(filePath, options) };
+	}
+	const header = await readFileHeader(filePath, SNIFF_LENGTH);
+	const mimeType = detectMimeType(header, filePath);
+	const isImage = mimeType.startsWith("image/") && mimeType !== "image/svg+xml";
+	const isDocument =
+		mimeType === "application/pdf" || isOfficeMimeType(mimeType);
+	if (hasByteRange(options) && (isImage || isDocument)) {
+		throw new Error(
+			`Byte ranges are only supported for text files: ${filePath}`,
+		);
+	}
+	if (mimeType === "application/pdf") {
+		await checkReadSize(filePath);
+		return {
+			type: "text",
+			text: sliceLines(
+				formatPdf(await extractPdf(filePath), options.pages),
+				options,
+			),
+		};
+	}
+	if (isOfficeMimeType(mimeType)) {
+		await checkReadSize(filePath);
+		return {
+			type: "text",
+			text: sliceLines(
+				formatOffice(await extractOffice(filePath), options),
+				options,
+			),
+		};
+	}
+	if (isImage) {
+		return readImageContent(filePath, options);
+	}
+
+	const encoding = options.encoding ?? detectEncoding(header)?.encoding;
+	if (!encoding) {
+		return {
+			type: "text",
+			text: describeBinaryFile(
+				filePath,
+				header,
+				mimeType,
+				(await stat(filePath)).size,
+			),
+		};
+	}
+	if (hasByteRange(options)) {
+		return {
+			type: "text",
+			text: await readByteRange(
+				filePath,
+				options,
+				encoding,
+				getSettings().maxReadSize,
+			),
+		};
+	}
+	// Line ranges of text files too big to load are streamed instead
+	const { maxReadSize } = getSettings();
+	if (hasLineRange(options) && (await stat(filePath)).size > maxReadSize) {
+		return {
+			type: "text",
+			text: await readLineRange(filePath, options, encoding, maxReadSize),
+		};
+	}
+	await checkReadSize(
+		filePath,
+		"read part of it with head, tail, offset/limit or byteOffset/byteLength instead",
+	);
+	// The whole file decides between UTF-8 and windows-1252, not just its start
+	const buffer = await readFile(filePath);
+	return {
+		type: "text",
+		text: sliceLines(
+			decodeTextFile(buffer, options.encoding)?.text ??
+				decodeText(buffer, encoding),
+			options,
+		),
+	};
+}
+
+// Entries inside archives are read as text or described like binary files;
+// documents and images are not extracted from them
+async function readArchiveEntryContent(
+	virtualPath: string,
+	location: ArchiveLocation,
+	options: { symbol?: string; encoding?: TextEncoding } & ReadRange,
+): Promise<FileContent> {
+	if (options.symbol !== undefined || hasByteRange(options)) {
+		throw new Error(
+			`Only line ranges and maxChars apply inside archives: ${virtualPath}`,
+		);
+	}
+	const entry = await findArchiveEntry(location);
+	if (entry.type === "directory") {
+		throw new Error(
+			`${virtualPath} is a directory inside the archive; list it with fs_list_directory`,
+		);
+	}
+	if (entry.type !== "file") {
+		throw new Error(`${virtualPath} is a link, not a file`);
+	}
+	const { maxReadSize } = getSettings();
+	if (entry.size > maxReadSize) {
+		throw new Error(
+			`${virtualPath} is ${entry.size} bytes, more than the maxReadSize setting of ${maxReadSize}`,
+		);
+	}
+	const data = await readArchiveEntry(location.archivePath, entry);
+	const file = decodeTextFile(data, options.encoding);
+	if (!file) {
+		return {
+			type: "text",
+			text: describeBinaryFile(
+				virtualPath,
+				data,
+				detectMimeType(data, location.entryName),
+				data.length,
+			),
+		};
+	}
+	return { type: "text", text: sliceLines(file.text, options) };
+}
+
+// The archive directory a listing or search starts from: a path inside an
+// archive, or an archive file itself for its root
+async function locateArchiveDirectory(
+	validPath: string,
+): Promise<ArchiveLocation | undefined> {
+	const inArchive = await locateArchiveEntry(validPath);
+	if (inArchive) return inArchive;
+	if (!(await stat(validPath)).isFile()) return undefined;
+	if (!(await detectArchiveFormat(validPath))) return undefined;
+	return { archivePath: validPath, entryName: "" };
+}
+
+// For reads and edits that only make sense on text. The bytes are kept so
+// that a failed write can put them back exactly.
+export async function readTextFileOrThrow(
+	filePath: string,
+	encoding?: TextEncoding,
+): Promise<TextFile & { bytes: Buffer }> {
+	const bytes = await readFile(filePath);
+	const file = decodeTextFile(bytes, encoding);
+	if (!file) throw new Error(`${filePath} looks like a binary file, not text`);
+	return { ...file, bytes };
+}
+
+// The lines of one declaration in a source file; only maxChars may be
+// combined with it
+async function readSymbol(
+	filePath: string,
+	options: { symbol?: string; encoding?: TextEncoding } & ReadRange,
 ): Promise<string> {
-	const content = normalizeLineEndings(await readFile(filePath, "utf-8"));
+	const { symbol = "", maxChars, ...range } = options;
+	const conflicting = Object.entries(range).find(
+		([key, value]) => key in ReadRangeArgsSchema.shape && value !== undefined,
+	);
+	if (conflicting) {
+		throw new Error(`Cannot combine symbol and ${conflicting[0]} in one read`);
+	}
+	await checkReadSize(filePath);
+	const { text } = await readTextFileOrThrow(filePath, options.encoding);
+	const { startLine, endLine } = locateSymbol(
+		getOutline(await parseSource(filePath, text)),
+		symbol,
+	);
+	return sliceLines(text, {
+		offset: startLine,
+		limit: endLine - startLine + 1,
+		maxChars,
+	});
+}
+
+const MAX_GREP_FILE_SIZE = 10 * 1024 * 1024;
+const MAX_GREP_LINE_LENGTH = 500;
+
+export function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Matching lines before skip are passed over, so a search can continue where
+// an earlier page stopped
+export async function grepFiles(
+	rootPath: string,
+	options: z.infer<typeof GrepArgsSchema>,
+	allowedDirectories: AllowedDirectory[],
+	skip = 0,
+): Promise<{ results: GrepFileResult[]; truncated: boolean }> {
+	const matcher = new RegExp(
+		options.regex ? options.pattern : escapeRegExp(options.pattern),
+		options.caseSensitive ? "" : "i",
+	);
+	const results: GrepFileResult[] = [];
+	let matchCount = 0;
+	let truncated = false;
+
+	async function grepFile(filePath: string) {
+		const stats = await stat(filePath);
+		if (stats.size > MAX_GREP_FILE_SIZE) return;
+		const file = decodeTextFile(await readFile(filePath));
+		if (!file) return;
+
+		const lines = normalizeLineEndings(file.text).split("\n");
+		const included = new Map<number, boolean>();
+		for (let i = 0; i < lines.length; i++) {
+			if (!matcher.test(lines[i])) continue;
+			if (matchCount >= skip + options.limit) {
+				truncated = true;
+				break;
+			}
+			matchCount++;
+			if (matchCount <= skip) continue;
+			const start = Math.max(0, i - options.contextLines);
+			const end = Math.min(lines.length - 1, i + options.contextLines);
+			for (let j = start; j <= end; j++) {
+				if (!included.get(j)) included.set(j, j === i);
+			}
+		}
+
+		if (included.size > 0) {
+			results.push({
+				path: filePath,
+				matches: [...included.entries()]
+					.sort(([a], [b]) => a - b)
+					.map(([i, isMatch]) => ({
+						line: i + 1,
+						text: lines[i],
+						context: !isMatch,
+					})),
+			});
+		}
+	}
+
+	const ignoreRules = options.respectIgnoreFiles
+		? await IgnoreRules.forRoot(rootPath)
+		: undefined;
+	// Real paths of directories already searched, so symlink cycles end
+	const visited = new Set<string>([rootPath]);
+
+	async function search(currentPath: string) {
+		const entries = (await readdir(currentPath)).sort();
+
+		for (const entry of entries) {
+			if (truncated) return;
+			const fullPath = path.join(currentPath, entry);
+
+			try {
+				const validPath = await validatePath(fullPath, allowedDirectories);
+				const relativePath = path.relative(rootPath, fullPath);
+				if (isExcluded(relativePath, options.excludePatterns)) continue;
+
+				const stats = await stat(validPath);
+				if (await ignoreRules?.ignores(fullPath, stats.isDirectory())) {
+					continue;
+				}
+				if (stats.isDirectory()) {
+					if (!visited.has(validPath)) {
+						visited.add(validPath);
+						await search(fullPath);
+					}
+					continue;
+				}
+				const isIncluded =
+					options.includePatterns.length === 0 ||
+					options.includePatterns.some((pattern) =>
+						minimatch(relativePath, pattern, { dot: true, matchBase: true }),
+					);
+				if (stats.isFile() && isIncluded) {
+					await grepFile(validPath);
+				}
+			} catch {}
+		}
+	}
+
+	const rootStats = await stat(rootPath);
+	if (rootStats.isDirectory()) {
+		await search(rootPath);
+	} else {
+		await grepFile(rootPath);
+	}
+	return { results, truncated };
+}
+
+export function formatGrepResults(results: GrepFileResult[]): string {
+	return results
+		.map((result) => {
+			const lines: string[] = [result.path];
+			let previous = 0;
+			for (const match of result.matches) {
+				if (previous && match.line > previous + 1) lines.push("  --");
+				const text =
+					match.text.length > MAX_GREP_LINE_LENGTH
+						? `${match.text.slice(0, MAX_GREP_LINE_LENGTH)}...`
+						: match.text;
+				lines.push(`  ${match.line}${match.context ? "-" : ":"} ${text}`);
+				previous = match.line;
+			}
+			return lines.join("\n");
+		})
+		.join("\n\n");
+}
+
+// 1-based line number of a character offset
+function lineAt(content: string, index: number): number {
+	return content.slice(0, index).split("\n").length;
+}
 
-	let modifiedContent = content;
+function ambiguousEdit(
+	edit: { oldText: string },
+	content: string,
+	indices: number[],
+): Error {
+	const lines = indices.map((index) => lineAt(content, index)).join(", ");
+	return new Error(
+		`Ambiguous edit: oldText matches ${indices.length} times (at lines ${lines}); ` +
+			`include more surrounding text so it matches once:\n${edit.oldText}`,
+	);
+}
+
+// Apply edits to text in order. Each oldText must match exactly once, either
+// exactly or ignoring indentation; anything else is an error rather than a
+// guess, so callers can check all edits before writing any file.
+export function applyEditsToContent(
+	content: string,
+	edits: Array<{ oldText: string; newText: string }>,
+): string {
+	let modifiedContent = normalizeLineEndings(content);
 	for (const edit of edits) {
 		const normalizedOld = normalizeLineEndings(edit.oldText);
 		const normalizedNew = normalizeLineEndings(edit.newText);
+		if (!normalizedOld) {
+			throw new Error("oldText must not be empty");
+		}
 
-		if (modifiedContent.includes(normalizedOld)) {
-			modifiedContent = modifiedContent.replace(normalizedOld, normalizedNew);
+		const indices: number[] = [];
+		for (
+			let index = modifiedContent.indexOf(normalizedOld);
+			index !== -1;
+			index = modifiedContent.indexOf(normalizedOld, index + 1)
+		) {
+			indices.push(index);
+		}
+		if (indices.length > 1) {
+			throw ambiguousEdit(edit, modifiedContent, indices);
+		}
+		if (indices.length === 1) {
+			modifiedContent =
+				modifiedContent.slice(0, indices[0]) +
+				normalizedNew +
+				modifiedContent.slice(indices[0] + normalizedOld.length);
 			continue;
 		}
 
 		const oldLines = normalizedOld.split("\n");
 		const contentLines = modifiedContent.split("\n");
-		let matchFound = false;
+		const matches: number[] = [];
 
 		for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
 			const potentialMatch = contentLines.slice(i, i + oldLines.length);
@@ -235,52 +1121,179 @@ export async function applyFileEdits(
 				const contentLine = potentialMatch[j];
 				return oldLine.trim() === contentLine.trim();
 			});
-
-			if (isMatch) {
-				const originalIndent = contentLines[i].match(/^\s*/)?.[0] || "";
-				const newLines = normalizedNew.split("\n").map((line, j) => {
-					if (j === 0) return originalIndent + line.trimStart();
-					const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || "";
-					const newIndent = line.match(/^\s*/)?.[0] || "";
-					if (oldIndent && newIndent) {
-						const relativeIndent = newIndent.length - oldIndent.length;
-						return (
-							originalIndent +
-							" ".repeat(Math.max(0, relativeIndent)) +
-							line.trimStart()
-						);
-					}
-					return line;
-				});
-
-				contentLines.splice(i, oldLines.length, ...newLines);
-				modifiedContent = contentLines.join("\n");
-				matchFound = true;
-				break;
-			}
+			if (isMatch) matches.push(i);
 		}
 
-		if (!matchFound) {
+		if (matches.length === 0) {
 			throw new Error(`Could not find exact match for edit:\n${edit.oldText}`);
 		}
+		if (matches.length > 1) {
+			throw ambiguousEdit(
+				edit,
+				modifiedContent,
+				matches.map((i) =>
+					contentLines
+						.slice(0, i)
+						.reduce((sum, line) => sum + line.length + 1, 0),
+				),
+			);
+		}
+
+		const [i] = matches;
+		const originalIndent = contentLines[i].match(/^\s*/)?.[0] || "";
+		const newLines = normalizedNew.split("\n").map((line, j) => {
+			if (j === 0) return originalIndent + line.trimStart();
+			const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || "";
+			const newIndent = line.match(/^\s*/)?.[0] || "";
+			if (oldIndent && newIndent) {
+				const relativeIndent = newIndent.length - oldIndent.length;
+				return (
+					originalIndent +
+					" ".repeat(Math.max(0, relativeIndent)) +
+					line.trimStart()
+				);
+			}
+			return line;
+		});
+
+		contentLines.splice(i, oldLines.length, ...newLines);
+		modifiedContent = contentLines.join("\n");
 	}
+	return modifiedContent;
+}
+
+export async function applyFileEdits(
+	filePath: string,
+	edits: Array<{ oldText: string; newText: string }>,
+	dryRun = false,
+): Promise<string> {
+	// Edits work on text with \n line endings; the file keeps its own
+	const file = await readTextFileOrThrow(filePath);
+	const modifiedContent = applyEditsToContent(file.text, edits);
 
 	if (!dryRun) {
-		await writeFile(filePath, modifiedContent);
+		await writeFilesAtomic([
+			{
+				path: filePath,
+				content: encodeTextFile(modifiedContent, file.format),
+				original: file.bytes,
+			},
+		]);
 	}
 
 	return modifiedContent;
 }
 
+// Write several files so that either all of them change or none do: each is
+// written to a temporary file beside it and renamed into place once every
+// write succeeded. If a rename fails, files already replaced are restored
+// from their original content.
+export async function writeFilesAtomic(
+	files: Array<{
+		path: string;
+		content: string | Buffer;
+		original?: string | Buffer;
+	}>,
+): Promise<void> {
+	const staged: Array<{ path: string; tempPath: string }> = [];
+	try {
+		for (const file of files) {
+			const tempPath = path.join(
+				path.dirname(file.path),
+				`.${path.basename(file.path)}.${randomUUID().slice(0, 8)}.tmp`,
+			);
+			staged.push({ path: file.path, tempPath });
+			await writeFile(tempPath, file.content);
+			const stats = await stat(file.path).catch(() => null);
+			if (stats) await chmod(tempPath, stats.mode);
+		}
+	} catch (error) {
+		await Promise.all(staged.map((s) => rm(s.tempPath, { force: true })));
+		throw error;
+	}
+
+	for (const [i, { path: filePath, tempPath }] of staged.entries()) {
+		try {
+			await rename(tempPath, filePath);
+		} catch (error) {
+			for (const [j, done] of staged.slice(0, i).entries()) {
+				const { original } = files[j];
+				if (original === undefined) await rm(done.path, { force: true });
+				else await writeFile(done.path, original);
+			}
+			await Promise.all(
+				staged.slice(i).map((s) => rm(s.tempPath, { force: true })),
+			);
+			throw error;
+		}
+	}
+}
+
+// Move or copy a file or directory. An existing destination is only replaced
+// with overwrite, and then goes to the trash so that the change can be undone.
+export async function transferPath(
+	operation: "move" | "copy",
+	source: string,
+	destination: string,
+	overwrite: boolean,
+): Promise<JournalChange[]> {
+	if (isPathWithin(source, destination)) {
+		throw new Error(`Cannot ${operation} ${source} into itself`);
+	}
+	const changes: JournalChange[] = [];
+	if (await pathExists(destination)) {
+		if (!overwrite) {
+			throw new Error(
+				`Destination already exists: ${destination}. Pass overwrite: true to replace it`,
+			);
+		}
+		changes.push({
+			type: "delete",
+			path: destination,
+			trashPath: await getTrash().put(destination),
+		});
+	}
+	try {
+		if (operation === "move") await movePath(source, destination);
+		else await copyPath(source, destination);
+	} catch (error) {
+		for (const change of changes) {
+			if (change.type === "delete") {
+				await getTrash().restore(change.trashPath, change.path);
+			}
+		}
+		throw error;
+	}
+	changes.push({ type: operation, from: source, to: destination });
+	return changes;
+}
+
 // Tool definitions
 export const tools = [
 	{
 		name: "fs_read_file",
 		description:
 			"Read the complete contents of a file from the file system. " +
-			"Handles various text encodings and provides detailed error messages " +
-			"if the file cannot be read. Use this tool when you need to examine " +
-			"the contents of a single file. Only works within allowed directories.",
+			"Detects UTF-8, UTF-16 (with or without a byte order mark) and " +
+			"windows-1252/Latin-1 text; pass 'encoding' to override it. Binary " +
+			"files are summarized with their type, size and a hex preview of the " +
+			"first bytes instead. Use this tool when you need to examine " +
+			"the contents of a single file. PDFs are returned as extracted text " +
+			"with page markers and document metadata; use 'pages' to read a long " +
+			"PDF a few pages at a time. Word, Excel and PowerPoint files and their " +
+			"OpenDocument equivalents are returned as text: headings, paragraphs " +
+			"and tables for documents; each sheet as a Markdown or CSV table " +
+			"('tableFormat') for spreadsheets, or one with 'sheet'; each slide " +
+			"with its speaker notes for presentations, selected with 'pages'. " +
+			"PNG, JPEG, GIF and WebP images are returned " +
+			"as images. For large files, read a slice with 'offset'/'limit' (lines), " +
+			"'head', 'tail' or 'byteOffset'/'byteLength', and cap the output with " +
+			"'maxChars'; a marker at the end says how to fetch the next slice. " +
+			"For TypeScript and JavaScript, 'symbol' reads a single function, class " +
+			"or other declaration (see fs_outline). " +
+			"Files inside zip, tar and tar.gz archives are read as " +
+			"'bundle.zip!/docs/readme.md'. " +
+			"Only works within allowed directories.",
 		inputSchema: zodToJsonSchema(ReadFileArgsSchema) as ToolInput,
 	},
 	{
@@ -290,52 +1303,106 @@ export const tools = [
 			"efficient than reading files one by one when you need to analyze " +
 			"or compare multiple files. Each file's content is returned with its " +
 			"path as a reference. Failed reads for individual files won't stop " +
-			"the entire operation. Only works within allowed directories.",
+			"the entire operation. Accepts the same slicing options as " +
+			"fs_read_file for every file, while 'maxChars' is a total budget shared " +
+			"by all files in order. Only works within allowed directories.",
 		inputSchema: zodToJsonSchema(ReadMultipleFilesArgsSchema) as ToolInput,
 	},
 	{
 		name: "fs_write_file",
 		description:
 			"Create a new file or completely overwrite an existing file with new content. " +
-			"Use with caution as it will overwrite existing files without warning. " +
-			"Handles text content with proper encoding. Only works within allowed directories.",
+			"Use with caution as it will overwrite existing files without warning; " +
+			"the previous content is kept in the change journal (see fs_undo). " +
+			"An existing text file keeps its encoding, byte order mark and line " +
+			"endings unless 'encoding' says otherwise; new files are UTF-8. " +
+			"Only works within writable allowed directories.",
 		inputSchema: zodToJsonSchema(WriteFileArgsSchema) as ToolInput,
 	},
 	{
 		name: "fs_edit_file",
 		description:
 			"Make line-based edits to a text file. Each edit replaces exact line sequences " +
-			"with new content. Returns a git-style diff showing the changes made. " +
-			"Only works within allowed directories.",
+			"with new content; each oldText must match exactly once. The file keeps " +
+			"its encoding and line endings. Returns a git-style diff showing the " +
+			"changes made. " +
+			"Only works within writable allowed directories.",
 		inputSchema: zodToJsonSchema(EditFileArgsSchema) as ToolInput,
 	},
+	{
+		name: "fs_edit_files",
+		description:
+			"Edit several text files as one change. Every edit in every file is " +
+			"checked first; if any oldText is missing or matches more than once, " +
+			"nothing is written and all problems are reported. Otherwise all files " +
+			"are written together, or none if a write fails. Returns one combined " +
+			"git-style diff; use dryRun to preview it. Only works within writable " +
+			"allowed directories.",
+		inputSchema: zodToJsonSchema(EditFilesArgsSchema) as ToolInput,
+	},
 	{
 		name: "fs_create_directory",
 		description:
 			"Create a new directory or ensure a directory exists. Can create multiple " +
 			"nested directories in one operation. If the directory already exists, " +
 			"this operation will succeed silently. Perfect for setting up directory " +
-			"structures for projects or ensuring required paths exist. Only works within allowed directories.",
+			"structures for projects or ensuring required paths exist. Only works within writable allowed directories.",
 		inputSchema: zodToJsonSchema(CreateDirectoryArgsSchema) as ToolInput,
 	},
 	{
 		name: "fs_list_directory",
 		description:
 			"Get a detailed listing of all files and directories in a specified path. " +
-			"Results clearly distinguish between files and directories with [FILE] and [DIR] " +
-			"prefixes. This tool is essential for understanding directory structure and " +
-			"finding specific files within a directory. Only works within allowed directories.",
+			"Results clearly distinguish between files, directories and symlinks with [FILE], [DIR] " +
+			"and [LINK] prefixes; symlinks show their target and are not followed. " +
+			"This tool is essential for understanding directory structure and " +
+			"finding specific files within a directory. An archive (zip, tar, " +
+			"tar.gz) or a directory inside one ('bundle.zip!/docs') lists its " +
+			"entries with their size, compressed size and modification time. " +
+			"Entries are sorted by name " +
+			"and returned 'limit' at a time; pass the returned nextCursor to get the " +
+			"next page. Only works within allowed directories.",
 		inputSchema: zodToJsonSchema(ListDirectoryArgsSchema) as ToolInput,
+		outputSchema: zodToJsonSchema(ListDirectoryResultSchema) as ToolOutput,
 	},
 	{
 		name: "fs_move_file",
 		description:
 			"Move or rename files and directories. Can move files between directories " +
 			"and rename them in a single operation. If the destination exists, the " +
-			"operation will fail. Works across different directories and can be used " +
-			"for simple renaming within the same directory. Both source and destination must be within allowed directories.",
+			"operation will fail unless overwrite is true, in which case the old " +
+			"destination goes to the trash. Works across different directories and " +
+			"file systems, keeping permissions and timestamps, and can be used " +
+			"for simple renaming within the same directory. Both source and destination must be within writable allowed directories.",
 		inputSchema: zodToJsonSchema(MoveFileArgsSchema) as ToolInput,
 	},
+	{
+		name: "fs_copy",
+		description:
+			"Copy a file or a whole directory, keeping permissions and timestamps. " +
+			"Symlinks inside a copied directory are copied as links. If the " +
+			"destination exists, the operation fails unless overwrite is true, in " +
+			"which case the old destination goes to the trash. The source must be " +
+			"within allowed directories and the destination within writable ones.",
+		inputSchema: zodToJsonSchema(CopyArgsSchema) as ToolInput,
+	},
+	{
+		name: "fs_delete",
+		description:
+			"Delete a file or directory by moving it to the trash, from where " +
+			"fs_undo can put it back until the trash is emptied. Directories that " +
+			"are not empty need recursive: true. Only works within writable allowed " +
+			"directories.",
+		inputSchema: zodToJsonSchema(DeleteArgsSchema) as ToolInput,
+	},
+	{
+		name: "fs_empty_trash",
+		description:
+			"Permanently remove items deleted with fs_delete or replaced by an " +
+			"overwrite, either all of them or those older than 'olderThanDays'. " +
+			"Deletions of removed items can no longer be undone.",
+		inputSchema: zodToJsonSchema(EmptyTrashArgsSchema) as ToolInput,
+	},
 	{
 		name: "fs_search_files",
 		description:
@@ -343,28 +1410,43 @@ export const tools = [
 			"Searches through all subdirectories from the starting path. The search " +
 			"is case-insensitive and matches partial names. Returns full paths to all " +
 			"matching items. Great for finding files when you don't know their exact location. " +
+			"Skips .git, node_modules and files ignored by .gitignore or .semanticignore " +
+			"unless respectIgnoreFiles is false. Results are sorted and returned " +
+			"'limit' at a time; pass the returned nextCursor to get the next page. " +
+			"Archives are searched only when path is one, or a directory inside " +
+			"one ('bundle.zip!/docs'); matches are returned as such paths. " +
 			"Only searches within allowed directories.",
 		inputSchema: zodToJsonSchema(SearchFilesArgsSchema) as ToolInput,
+		outputSchema: zodToJsonSchema(SearchFilesResultSchema) as ToolOutput,
+	},
+	{
+		name: "fs_grep",
+		description:
+			"Search inside files for lines matching a literal string or regular " +
+			"expression. Recursively searches a directory (or a single file), skipping " +
+			"binary files. Supports case sensitivity, include/exclude globs and lines " +
+			"of context around each match. Skips .git, node_modules and files " +
+			"ignored by .gitignore or .semanticignore unless respectIgnoreFiles is " +
+			"false. Results are grouped per file with line " +
+			"numbers; matching lines are marked with ':' and context lines with '-'. " +
+			"Returns up to 'limit' matching lines; pass the returned nextCursor " +
+			"to get the next page. Only searches within allowed directories.",
+		inputSchema: zodToJsonSchema(GrepArgsSchema) as ToolInput,
+		outputSchema: zodToJsonSchema(GrepResultSchema) as ToolOutput,
 	},
 	{
 		name: "fs_get_file_info",
 		description:
 			"Retrieve detailed metadata about a file or directory. Returns comprehensive " +
 			"information including size, creation time, last modified time, permissions, " +
-			"and type. This tool is perfect for understanding file characteristics " +
-			"without reading the actual content. Only works within allowed directories.",
+			"and type, plus format and dimensions for images. For an entry inside an " +
+			"archive ('bundle.zip!/docs/readme.md') it returns what the archive " +
+			"records: size, compressed size, modification time and permissions. " +
+			"This tool is perfect for " +
+			"understanding file characteristics without reading the actual content. " +
+			"Only works within allowed directories.",
 		inputSchema: zodToJsonSchema(GetFileInfoArgsSchema) as ToolInput,
-	},
-	{
-		name: "fs_list_allowed_directories",
-		description:
-			"Returns the list of directories that this server is allowed to access. " +
-			"Use this to understand which directories are available before trying to access files.",
-		inputSchema: {
-			type: "object",
-			properties: {},
-			required: [],
-		},
+		outputSchema: zodToJsonSchema(GetFileInfoResultSchema) as ToolOutput,
 	},
 ];
 
@@ -372,7 +1454,7 @@ export const tools = [
 export async function handleTool(
 	name: string,
 	args: Record<string, unknown> | undefined,
-	allowedDirectories: string[],
+	allowedDirectories: AllowedDirectory[],
 ) {
 	switch (name) {
 		case "fs_read_file": {
@@ -384,9 +1466,9 @@ export async function handleTool(
 				parsed.data.path,
 				allowedDirectories,
 			);
-			const content = await readFile(validPath, "utf-8");
+			const content = await readFileContent(validPath, parsed.data);
 			return {
-				content: [{ type: "text", text: content }],
+				content: [content],
 			};
 		}
 
@@ -397,21 +1479,73 @@ export async function handleTool(
 					`Invalid arguments for read_multiple_files: ${parsed.error}`,
 				);
 			}
+			const { paths, maxChars, ...options } = parsed.data;
 			const results = await Promise.all(
-				parsed.data.paths.map(async (filePath: string) => {
+				paths.map(async (filePath: string) => {
 					try {
 						const validPath = await validatePath(filePath, allowedDirectories);
-						const content = await readFile(validPath, "utf-8");
-						return `${filePath}:\n${content}\n`;
+						const content = await readFileContent(validPath, {
+							...options,
+							maxChars,
+						});
+						return { filePath, validPath, content };
 					} catch (error) {
 						const errorMessage =
 							error instanceof Error ? error.message : String(error);
-						return `${filePath}: Error - ${errorMessage}`;
+						return { filePath, errorMessage };
 					}
 				}),
 			);
+			// Files are read in parallel, each within the whole budget; the
+			// first one that overruns what is left is read again to fit
+			let remaining = maxChars ?? Number.POSITIVE_INFINITY;
+			const blocks: FileContent[] = [];
+			for (const result of results) {
+				const { filePath } = result;
+				if ("errorMessage" in result) {
+					blocks.push({
+						type: "text",
+						text: `${filePath}: Error - ${result.errorMessage}`,
+					});
+					continue;
+				}
+				let { content } = result;
+				if (content.type === "image") {
+					blocks.push({ type: "text", text: `${filePath}:` }, content);
+					continue;
+				}
+				if (remaining <= 0) {
+					blocks.push({
+						type: "text",
+						text: `${filePath}: Skipped - the maxChars budget is used up`,
+					});
+					continue;
+				}
+				if (content.text.length > remaining) {
+					content = await readFileContent(result.validPath, {
+						...options,
+						maxChars: remaining,
+					});
+				}
+				if (content.type === "text") remaining -= content.text.length;
+				blocks.push(
+					content.type === "text"
+						? { type: "text", text: `${filePath}:\n${content.text}\n` }
+						: content,
+				);
+			}
+			// Keep consecutive text results in one block, separated as before
+			const content: FileContent[] = [];
+			for (const block of blocks) {
+				const previous = content[content.length - 1];
+				if (block.type === "text" && previous?.type === "text") {
+					previous.text += `\n---\n${block.text}`;
+				} else {
+					content.push(block);
+				}
+			}
 			return {
-				content: [{ type: "text", text: results.join("\n---\n") }],
+				content,
 			};
 		}
 
@@ -423,11 +1557,38 @@ export async function handleTool(
 			const validPath = await validatePath(
 				parsed.data.path,
 				allowedDirectories,
+				"write",
+			);
+			// An existing text file keeps its encoding, byte order mark and line
+			// endings unless another encoding is asked for
+			const existing = await readFile(validPath)
+				.then((bytes) => decodeTextFile(bytes))
+				.catch(() => undefined);
+			const encoding =
+				parsed.data.encoding ?? existing?.format.encoding ?? "utf-8";
+			const format: TextFormat = {
+				encoding,
+				bom:
+					existing?.format.encoding === encoding
+						? existing.format.bom
+						: encoding.startsWith("utf-16"),
+				lineEnding:
+					existing?.format.lineEnding ?? detectLineEnding(parsed.data.content),
+			};
+			await getJournal().track("write_file", [validPath], () =>
+				writeFile(validPath, encodeTextFile(parsed.data.content, format)),
 			);
-			await writeFile(validPath, parsed.data.content);
+			const details = [
+				encoding === "utf-8" ? undefined : encoding,
+				format.bom && encoding === "utf-8" ? "with BOM" : undefined,
+				format.lineEnding === "\r\n" ? "CRLF line endings" : undefined,
+			].filter(Boolean);
 			return {
 				content: [
-					{ type: "text", text: `Successfully wrote to ${parsed.data.path}` },
+					{
+						type: "text",
+						text: `Successfully wrote to ${parsed.data.path}${details.length > 0 ? ` (${details.join(", ")})` : ""}`,
+					},
 				],
 			};
 		}
@@ -440,16 +1601,20 @@ export async function handleTool(
 			const validPath = await validatePath(
 				parsed.data.path,
 				allowedDirectories,
+				parsed.data.dryRun ? "read" : "write",
 			);
-			const result = await applyFileEdits(
-				validPath,
-				parsed.data.edits,
-				parsed.data.dryRun,
+			const original = normalizeLineEndings(
+				(await readTextFileOrThrow(validPath)).text,
 			);
+			const result = parsed.data.dryRun
+				? await applyFileEdits(validPath, parsed.data.edits, true)
+				: await getJournal().track("edit_file", [validPath], () =>
+						applyFileEdits(validPath, parsed.data.edits),
+					);
 			const diff = createTwoFilesPatch(
 				parsed.data.path,
 				parsed.data.path,
-				await readFile(validPath, "utf-8"),
+				original,
 				result,
 				"original",
 				"modified",
@@ -459,6 +1624,86 @@ export async function handleTool(
 			};
 		}
 
+		case "fs_edit_files": {
+			const parsed = EditFilesArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for edit_files: ${parsed.error}`);
+			}
+			// Edits listed for the same file more than once apply in order
+			const files = new Map<
+				string,
+				{ requestedPath: string; edits: z.infer<typeof EditOperation>[] }
+			>();
+			for (const file of parsed.data.files) {
+				const validPath = await validatePath(
+					file.path,
+					allowedDirectories,
+					parsed.data.dryRun ? "read" : "write",
+				);
+				const existing = files.get(validPath);
+				if (existing) existing.edits.push(...file.edits);
+				else
+					files.set(validPath, {
+						requestedPath: file.path,
+						edits: [...file.edits],
+					});
+			}
+
+			const changes: Array<{
+				path: string;
+				requestedPath: string;
+				original: Buffer;
+				content: Buffer;
+				before: string;
+				after: string;
+			}> = [];
+			const errors: string[] = [];
+			for (const [validPath, { requestedPath, edits }] of files) {
+				try {
+					const file = await readTextFileOrThrow(validPath);
+					const after = applyEditsToContent(file.text, edits);
+					changes.push({
+						path: validPath,
+						requestedPath,
+						original: file.bytes,
+						content: encodeTextFile(after, file.format),
+						before: normalizeLineEndings(file.text),
+						after,
+					});
+				} catch (error) {
+					const message =
+						error instanceof Error ? error.message : String(error);
+					errors.push(`${requestedPath}: ${message}`);
+				}
+			}
+			if (errors.length > 0) {
+				throw new Error(`No files were changed:\n${errors.join("\n\n")}`);
+			}
+
+			if (!parsed.data.dryRun) {
+				await getJournal().track(
+					"edit_files",
+					changes.map((change) => change.path),
+					() => writeFilesAtomic(changes),
+				);
+			}
+			const diff = changes
+				.map((change) =>
+					createTwoFilesPatch(
+						change.requestedPath,
+						change.requestedPath,
+						change.before,
+						change.after,
+						"original",
+						"modified",
+					),
+				)
+				.join("\n");
+			return {
+				content: [{ type: "text", text: diff }],
+			};
+		}
+
 		case "fs_create_directory": {
 			const parsed = CreateDirectoryArgsSchema.safeParse(args);
 			if (!parsed.success) {
@@ -469,8 +1714,12 @@ export async function handleTool(
 			const validPath = await validatePath(
 				parsed.data.path,
 				allowedDirectories,
+				"write",
 			);
-			await mkdir(validPath, { recursive: true });
+			const created = await makeDirectories(validPath);
+			if (created) {
+				await getJournal().record("create_directory", [created]);
+			}
 			return {
 				content: [
 					{
@@ -492,18 +1741,76 @@ export async function handleTool(
 				parsed.data.path,
 				allowedDirectories,
 			);
-			const entries = await readdir(validPath);
+			const archiveDirectory = await locateArchiveDirectory(validPath);
+			if (archiveDirectory) {
+				const page = paginate(
+					await listArchiveDirectory(archiveDirectory),
+					parsed.data,
+				);
+				const lines = page.items.map((entry) =>
+					entry.type === "directory"
+						? `[DIR] ${entry.name}`
+						: entry.type === "symlink"
+							? `[LINK] ${entry.name}${entry.linkTarget ? ` -> ${entry.linkTarget}` : ""}`
+							: `[FILE] ${entry.name} (${entry.size} bytes${entry.compressedSize === undefined ? "" : `, ${entry.compressedSize} compressed`}, modified ${entry.modified?.toISOString()})`,
+				);
+				if (page.nextCursor) lines.push(describePage(page, "entries"));
+				return {
+					content: [{ type: "text", text: lines.join("\n") }],
+					structuredContent: {
+						entries: page.items.map((entry) => ({
+							...entry,
+							modified: entry.modified?.toISOString(),
+						})),
+						total: page.total,
+						nextCursor: page.nextCursor,
+					},
+				};
+			}
+			const entries = await readdir(validPath, { withFileTypes: true });
 			if (!entries) {
 				throw new Error(`Failed to read directory: ${parsed.data.path}`);
 			}
-			const formatted = await Promise.all(
-				entries.map(async (entry) => {
-					const stats = await stat(path.join(validPath, entry));
-					return `${stats.isDirectory() ? "[DIR]" : "[FILE]"} ${entry}`;
+			const page = paginate(
+				entries.sort((a, b) =>
+					a.name < b.name ? -1 : a.name > b.name ? 1 : 0,
+				),
+				parsed.data,
+			);
+			// Symlinks are reported rather than followed, and an entry that cannot
+			// be examined (removed meanwhile, no permission) falls back to the type
+			// readdir saw instead of failing the whole listing
+			const listed = await Promise.all(
+				page.items.map(async (entry) => {
+					const entryPath = path.join(validPath, entry.name);
+					const stats = await lstat(entryPath).catch(() => entry);
+					if (stats.isSymbolicLink()) {
+						const linkTarget = await readlink(entryPath).catch(() => undefined);
+						return { name: entry.name, type: "symlink" as const, linkTarget };
+					}
+					return {
+						name: entry.name,
+						type: stats.isDirectory()
+							? ("directory" as const)
+							: ("file" as const),
+					};
 				}),
 			);
+			const lines = listed.map((entry) =>
+				entry.type === "directory"
+					? `[DIR] ${entry.name}`
+					: entry.type === "symlink"
+						? `[LINK] ${entry.name}${entry.linkTarget ? ` -> ${entry.linkTarget}` : ""}`
+						: `[FILE] ${entry.name}`,
+			);
+			if (page.nextCursor) lines.push(describePage(page, "entries"));
 			return {
-				content: [{ type: "text", text: formatted.join("\n") }],
+				content: [{ type: "text", text: lines.join("\n") }],
+				structuredContent: {
+					entries: listed,
+					total: page.total,
+					nextCursor: page.nextCursor,
+				},
 			};
 		}
 
@@ -512,17 +1819,21 @@ export async function handleTool(
 			if (!parsed.success) {
 				throw new Error(`Invalid arguments for move_file: ${parsed.error}`);
 			}
-			const validSourcePath = await validatePath(
+			const validSourcePath = await validateEntryPath(
 				parsed.data.source,
 				allowedDirectories,
 			);
-			const validDestPath = await validatePath(
+			const validDestPath = await validateEntryPath(
 				parsed.data.destination,
 				allowedDirectories,
 			);
-			const content = await readFile(validSourcePath);
-			await writeFile(validDestPath, content);
-			await rm(validSourcePath);
+			const changes = await transferPath(
+				"move",
+				validSourcePath,
+				validDestPath,
+				parsed.data.overwrite,
+			);
+			await getJournal().record("move_file", changes);
 			return {
 				content: [
 					{
@@ -533,61 +1844,208 @@ export async function handleTool(
 			};
 		}
 
-		case "fs_search_files": {
-			const parsed = SearchFilesArgsSchema.safeParse(args);
+		case "fs_copy": {
+			const parsed = CopyArgsSchema.safeParse(args);
 			if (!parsed.success) {
-				throw new Error(`Invalid arguments for search_files: ${parsed.error}`);
+				throw new Error(`Invalid arguments for copy: ${parsed.error}`);
 			}
-			const validPath = await validatePath(
-				parsed.data.path,
+			const validSourcePath = await validatePath(
+				parsed.data.source,
 				allowedDirectories,
 			);
-			const results = await searchFiles(
-				validPath,
-				parsed.data.pattern,
+			const validDestPath = await validateEntryPath(
+				parsed.data.destination,
 				allowedDirectories,
-				parsed.data.excludePatterns,
 			);
+			const changes = await transferPath(
+				"copy",
+				validSourcePath,
+				validDestPath,
+				parsed.data.overwrite,
+			);
+			await getJournal().record("copy", changes);
 			return {
 				content: [
 					{
 						type: "text",
-						text: results.length > 0 ? results.join("\n") : "No matches found",
+						text: `Successfully copied ${parsed.data.source} to ${parsed.data.destination}`,
 					},
 				],
 			};
 		}
 
-		case "fs_get_file_info": {
-			const parsed = GetFileInfoArgsSchema.safeParse(args);
+		case "fs_delete": {
+			const parsed = DeleteArgsSchema.safeParse(args);
 			if (!parsed.success) {
-				throw new Error(`Invalid arguments for get_file_info: ${parsed.error}`);
+				throw new Error(`Invalid arguments for delete: ${parsed.error}`);
+			}
+			const validPath = await validateEntryPath(
+				parsed.data.path,
+				allowedDirectories,
+			);
+			const stats = await lstat(validPath);
+			if (
+				stats.isDirectory() &&
+				!parsed.data.recursive &&
+				(await readdir(validPath)).length > 0
+			) {
+				throw new Error(
+					`Directory is not empty: ${parsed.data.path}. Pass recursive: true to delete it`,
+				);
+			}
+			const trashPath = await getTrash().put(validPath);
+			await getJournal().record("delete", [
+				{ type: "delete", path: validPath, trashPath },
+			]);
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Moved ${parsed.data.path} to the trash (fs_undo restores it)`,
+					},
+				],
+			};
+		}
+
+		case "fs_empty_trash": {
+			const parsed = EmptyTrashArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for empty_trash: ${parsed.error}`);
+			}
+			const { olderThanDays } = parsed.data;
+			const removed = await getTrash().empty(
+				olderThanDays === undefined
+					? undefined
+					: new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000),
+			);
+			return {
+				content: [
+					{
+						type: "text",
+						text:
+							removed.length > 0
+								? `Permanently deleted ${removed.length} item(s):\n${removed
+										.map(
+											(item) =>
+												`${item.originalPath} (deleted ${item.deletedAt})`,
+										)
+										.join("\n")}`
+								: "Nothing to remove from the trash",
+					},
+				],
+			};
+		}
+
+		case "fs_search_files": {
+			const parsed = SearchFilesArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for search_files: ${parsed.error}`);
 			}
 			const validPath = await validatePath(
 				parsed.data.path,
 				allowedDirectories,
 			);
-			const info = await getFileStats(validPath);
+			const archiveDirectory = await locateArchiveDirectory(validPath);
+			const results = archiveDirectory
+				? await searchArchive(
+						archiveDirectory,
+						parsed.data.pattern,
+						parsed.data.excludePatterns,
+					)
+				: await searchFiles(
+						validPath,
+						parsed.data.pattern,
+						allowedDirectories,
+						parsed.data.excludePatterns,
+						parsed.data.respectIgnoreFiles,
+					);
+			const page = paginate(results, parsed.data);
+			const lines = [...page.items];
+			if (page.nextCursor) lines.push(describePage(page, "matches"));
 			return {
 				content: [
 					{
 						type: "text",
-						text: Object.entries(info)
-							.map(([key, value]) => `${key}: ${value}`)
-							.join("\n"),
+						text: results.length > 0 ? lines.join("\n") : "No matches found",
 					},
 				],
+				structuredContent: {
+					paths: page.items,
+					total: page.total,
+					nextCursor: page.nextCursor,
+				},
+			};
+		}
+
+		case "fs_grep": {
+			const parsed = GrepArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for grep: ${parsed.error}`);
+			}
+			const validPath = await validatePath(
+				parsed.data.path,
+				allowedDirectories,
+			);
+			const skip = decodeCursor(parsed.data);
+			const { results, truncated } = await grepFiles(
+				validPath,
+				parsed.data,
+				allowedDirectories,
+				skip,
+			);
+			const nextCursor = truncated
+				? encodeCursor(skip + parsed.data.limit, parsed.data)
+				: undefined;
+			let text =
+				results.length > 0 ? formatGrepResults(results) : "No matches found";
+			if (nextCursor) {
+				text += `\n\n[Showing matches ${skip + 1}-${skip + parsed.data.limit}; pass cursor "${nextCursor}" for the next page, or narrow the search]`;
+			}
+			return {
+				content: [{ type: "text", text }],
+				structuredContent: { files: results, nextCursor },
 			};
 		}
 
-		case "fs_list_allowed_directories": {
+		case "fs_get_file_info": {
+			const parsed = GetFileInfoArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for get_file_info: ${parsed.error}`);
+			}
+			const validPath = await validatePath(
+				parsed.data.path,
+				allowedDirectories,
+			);
+			const inArchive = await locateArchiveEntry(validPath);
+			if (inArchive) {
+				const info = await getArchiveEntryInfo(inArchive);
+				return {
+					content: [
+						{
+							type: "text",
+							text: Object.entries(info)
+								.filter(([, value]) => value !== undefined)
+								.map(([key, value]) => `${key}: ${value}`)
+								.join("\n"),
+						},
+					],
+					structuredContent: info,
+				};
+			}
+			const info: FileInfo & Partial<ImageInfo> = await getFileStats(validPath);
+			if (info.isFile) {
+				Object.assign(info, await getImageInfo(validPath));
+			}
 			return {
 				content: [
 					{
 						type: "text",
-						text: `Allowed directories:\n${allowedDirectories.join("\n")}`,
+						text: Object.entries(info)
+							.map(([key, value]) => `${key}: ${value}`)
+							.join("\n"),
 					},
 				],
+				structuredContent: { ...info, ...fileInfoToJson(info) },
 			};
 		}
 
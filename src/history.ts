@@ -0,0 +1,157 @@
+import { ToolSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { type AllowedDirectory, validatePath } from "./fs";
+import {
+	type JournalChange,
+	type JournalEntry,
+	changedPaths,
+	getJournal,
+} from "./journal";
+import { isPathWithin } from "./path-policy";
+
+const ToolInputSchema = ToolSchema.shape.inputSchema;
+type ToolInput = z.infer<typeof ToolInputSchema>;
+
+// Schema definitions
+export const HistoryArgsSchema = z.object({
+	limit: z.number().int().positive().max(200).default(20),
+	path: z
+		.string()
+		.optional()
+		.describe("Only show operations that changed this file or directory"),
+});
+
+export const UndoArgsSchema = z.object({
+	ids: z
+		.array(z.number().int().positive())
+		.optional()
+		.describe("Journal entries to revert, as listed by fs_history"),
+	count: z
+		.number()
+		.int()
+		.positive()
+		.default(1)
+		.describe("Without ids, revert this many of the most recent operations"),
+});
+
+function describeChange(change: JournalChange): string {
+	switch (change.type) {
+		case "directory":
+			return `created directory ${change.paths[change.paths.length - 1]}`;
+		case "move":
+			return `moved ${change.from} to ${change.to}`;
+		case "copy":
+			return `copied ${change.from} to ${change.to}`;
+		case "delete":
+			return `moved ${change.path} to the trash`;
+	}
+	if (!change.before) return `created ${change.path}`;
+	if (!change.after) return `removed ${change.path}`;
+	return `modified ${change.path}`;
+}
+
+function formatEntry(entry: JournalEntry): string {
+	const undone = entry.undoneAt ? ` (undone ${entry.undoneAt})` : "";
+	const changes = entry.changes
+		.map((change) => `    ${describeChange(change)}`)
+		.join("\n");
+	return `#${entry.id} ${entry.timestamp} ${entry.operation}${undone}\n${changes}`;
+}
+
+// Tool definitions
+export const tools = [
+	{
+		name: "fs_history",
+		description:
+			"List recent changes made through this server (writes, edits, moves, " +
+			"copies, deletions and created directories), newest first, with the id of each journal entry. " +
+			"Use the ids with fs_undo.",
+		inputSchema: zodToJsonSchema(HistoryArgsSchema) as ToolInput,
+	},
+	{
+		name: "fs_undo",
+		description:
+			"Revert earlier changes made through this server, by journal id or the " +
+			"most recent ones. Files are restored to their previous content, created " +
+			"files and copies are removed, moved files are put back and deleted " +
+			"files come back from the trash. Refuses with a conflict " +
+			"error, without changing anything, if an affected file has been modified " +
+			"since. Only works within writable allowed directories.",
+		inputSchema: zodToJsonSchema(UndoArgsSchema) as ToolInput,
+	},
+];
+
+// Tool handlers
+export async function handleTool(
+	name: string,
+	args: Record<string, unknown> | undefined,
+	allowedDirectories: AllowedDirectory[],
+) {
+	switch (name) {
+		case "fs_history": {
+			const parsed = HistoryArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for history: ${parsed.error}`);
+			}
+			let entries = await getJournal().entries();
+			if (parsed.data.path) {
+				const validPath = await validatePath(
+					parsed.data.path,
+					allowedDirectories,
+				);
+				entries = entries.filter((entry) =>
+					changedPaths(entry).some((p) => isPathWithin(validPath, p)),
+				);
+			}
+			const recent = entries.slice(-parsed.data.limit).reverse();
+			return {
+				content: [
+					{
+						type: "text",
+						text:
+							recent.length > 0
+								? recent.map(formatEntry).join("\n")
+								: "No changes recorded",
+					},
+				],
+			};
+		}
+
+		case "fs_undo": {
+			const parsed = UndoArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for undo: ${parsed.error}`);
+			}
+			const journal = getJournal();
+			const entries = await journal.entries();
+			const ids =
+				parsed.data.ids ??
+				entries
+					.filter((entry) => !entry.undoneAt)
+					.slice(-parsed.data.count)
+					.map((entry) => entry.id);
+			if (ids.length === 0) {
+				throw new Error("Nothing to undo");
+			}
+			// Undo writes files, so every path must still be writable
+			for (const entry of entries.filter((e) => ids.includes(e.id))) {
+				for (const changedPath of changedPaths(entry)) {
+					await validatePath(changedPath, allowedDirectories, "write");
+				}
+			}
+			const undone = await journal.undo(ids);
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Undid:\n${undone.map(formatEntry).join("\n")}`,
+					},
+				],
+			};
+		}
+
+		default:
+			return null;
+	}
+}
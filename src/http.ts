@@ -0,0 +1,194 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import {
+	type IncomingMessage,
+	type ServerResponse,
+	createServer as createHttpServer,
+} from "node:http";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+export const DEFAULT_HTTP_PORT = 3717;
+export const MCP_PATH = "/mcp";
+
+// Requests larger than this are rejected before parsing
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1"]);
+
+// Clients that disconnect without ending their session leave it behind, so a
+// session with no open request for this long is closed
+const SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+const SESSION_SWEEP_INTERVAL = 60 * 1000;
+
+interface Session {
+	transport: StreamableHTTPServerTransport;
+	server: Server;
+	// A client listening for notifications keeps a GET request open
+	openRequests: number;
+	lastActive: number;
+}
+
+export interface HttpOptions {
+	host: string;
+	port: number;
+	// Called for every request, so a rotated token locks out old clients at once
+	getToken: () => Promise<string>;
+}
+
+function sendError(res: ServerResponse, status: number, message: string) {
+	res.writeHead(status, { "Content-Type": "application/json" });
+	res.end(
+		JSON.stringify({
+			jsonrpc: "2.0",
+			error: { code: -32000, message },
+			id: null,
+		}),
+	);
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+	const header = req.headers.authorization ?? "";
+	const match = /^Bearer\s+(.+)$/i.exec(header);
+	if (!match) return false;
+	const given = Buffer.from(match[1].trim());
+	const expected = Buffer.from(token);
+	return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+	const chunks: Buffer[] = [];
+	let size = 0;
+	for await (const chunk of req) {
+		size += chunk.length;
+		if (size > MAX_BODY_SIZE) throw new Error("Request body too large");
+		chunks.push(chunk);
+	}
+	return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+// Serve MCP over Streamable HTTP. Every client session gets its own server
+// from createServer, sharing only what the tool modules share (such as the
+// semantic index), and every request must carry the bearer token.
+export async function serveHttp(
+	createServer: () => Server,
+	options: HttpOptions,
+): Promise<void> {
+	const sessions = new Map<string, Session>();
+	// Only clients on this machine can reach a loopback address, so the Host
+	// header is checked to keep web pages from reaching it via DNS rebinding
+	const allowedHosts = LOOPBACK_HOSTS.has(options.host)
+		? ["127.0.0.1", "localhost", "[::1]"].map(
+				(host) => `${host}:${options.port}`,
+			)
+		: undefined;
+	if (!allowedHosts) {
+		console.error(
+			`Warning: ${options.host} may be reachable from other machines; anyone with the token can use the allowed directories`,
+		);
+	}
+
+	async function startSession(
+		req: IncomingMessage,
+		res: ServerResponse,
+	): Promise<void> {
+		const body = await readJsonBody(req);
+		if (!isInitializeRequest(body)) {
+			sendError(res, 400, "No session; send an initialize request first");
+			return;
+		}
+		const transport: StreamableHTTPServerTransport =
+			new StreamableHTTPServerTransport({
+				sessionIdGenerator: () => randomUUID(),
+				onsessioninitialized: (sessionId) => {
+					sessions.set(sessionId, session);
+				},
+				enableDnsRebindingProtection: allowedHosts !== undefined,
+				allowedHosts,
+			});
+		const session: Session = {
+			transport,
+			server: createServer(),
+			openRequests: 0,
+			lastActive: Date.now(),
+		};
+		transport.onclose = () => {
+			if (transport.sessionId) sessions.delete(transport.sessionId);
+		};
+		await session.server.connect(transport);
+		await handleSessionRequest(session, req, res, body);
+	}
+
+	async function handleSessionRequest(
+		session: Session,
+		req: IncomingMessage,
+		res: ServerResponse,
+		body?: unknown,
+	): Promise<void> {
+		session.openRequests++;
+		res.once("close", () => {
+			session.openRequests--;
+			session.lastActive = Date.now();
+		});
+		await session.transport.handleRequest(req, res, body);
+	}
+
+	const sweep = setInterval(() => {
+		const now = Date.now();
+		for (const [sessionId, session] of sessions) {
+			if (
+				session.openRequests === 0 &&
+				now - session.lastActive > SESSION_IDLE_TIMEOUT
+			) {
+				sessions.delete(sessionId);
+				session.server.close().catch((error) => {
+					console.error(`Closing idle session ${sessionId} failed:`, error);
+				});
+			}
+		}
+	}, SESSION_SWEEP_INTERVAL);
+	sweep.unref();
+
+	const httpServer = createHttpServer(async (req, res) => {
+		try {
+			const url = new URL(req.url ?? "/", "http://localhost");
+			if (url.pathname !== MCP_PATH) {
+				sendError(res, 404, `Not found; the MCP endpoint is ${MCP_PATH}`);
+				return;
+			}
+			if (!isAuthorized(req, await options.getToken())) {
+				res.setHeader("WWW-Authenticate", 'Bearer realm="semantic-fs"');
+				sendError(res, 401, "Missing or invalid bearer token");
+				return;
+			}
+
+			const sessionId = req.headers["mcp-session-id"];
+			if (typeof sessionId === "string") {
+				const session = sessions.get(sessionId);
+				if (!session) {
+					sendError(res, 404, `Unknown or expired session: ${sessionId}`);
+					return;
+				}
+				await handleSessionRequest(session, req, res);
+			} else if (req.method === "POST") {
+				await startSession(req, res);
+			} else {
+				sendError(res, 400, "Missing mcp-session-id header");
+			}
+		} catch (error) {
+			if (!res.headersSent) {
+				sendError(
+					res,
+					error instanceof SyntaxError ? 400 : 500,
+					error instanceof Error ? error.message : String(error),
+				);
+			}
+		}
+	});
+
+	await new Promise<void>((resolve, reject) => {
+		httpServer.once("error", reject);
+		httpServer.listen(options.port, options.host, () => resolve());
+	});
+}
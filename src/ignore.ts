@@ -0,0 +1,88 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import ignore, { type Ignore } from "ignore";
+import { isPathWithin } from "./path-policy";
+import { getSettings } from "./settings";
+
+// Read in every directory of a walk; rules in deeper files take precedence
+export const IGNORE_FILES = [".gitignore", ".semanticignore"];
+
+// Walks start somewhere inside a project, so ignore files above the start
+// are read too, up to the repository root (the nearest directory containing
+// .git). Outside a repository only the walk root and below count.
+async function findProjectRoot(start: string): Promise<string> {
+	let current = start;
+	while (true) {
+		if (await stat(path.join(current, ".git")).catch(() => null)) {
+			return current;
+		}
+		const parent = path.dirname(current);
+		if (parent === current) return start;
+		current = parent;
+	}
+}
+
+export class IgnoreRules {
+	private matchers = new Map<string, Promise<Ignore | undefined>>();
+	// Skipped even without an ignore file, as git itself does for .git
+	private defaults = ignore().add(getSettings().defaultExcludes);
+
+	private constructor(private projectRoot: string) {}
+
+	static async forRoot(rootPath: string): Promise<IgnoreRules> {
+		return new IgnoreRules(await findProjectRoot(path.resolve(rootPath)));
+	}
+
+	private matcherFor(dir: string): Promise<Ignore | undefined> {
+		let matcher = this.matchers.get(dir);
+		if (!matcher) {
+			matcher = Promise.all(
+				IGNORE_FILES.map((name) =>
+					readFile(path.join(dir, name), "utf-8").catch(() => undefined),
+				),
+			).then((contents) => {
+				const rules = contents.filter((content) => content !== undefined);
+				return rules.length > 0 ? ignore().add(rules.join("\n")) : undefined;
+			});
+			this.matchers.set(dir, matcher);
+		}
+		return matcher;
+	}
+
+	// Whether an entry found while walking is ignored. Callers skip ignored
+	// directories entirely, so only the entry itself needs checking.
+	async ignores(absolutePath: string, isDirectory: boolean): Promise<boolean> {
+		const suffix = isDirectory ? "/" : "";
+		const fromRoot = path.relative(this.projectRoot, absolutePath);
+		if (!fromRoot || !isPathWithin(this.projectRoot, absolutePath)) {
+			return false;
+		}
+		if (
+			this.defaults.ignores(`${fromRoot.split(path.sep).join("/")}${suffix}`)
+		) {
+			return true;
+		}
+
+		const dirs = [this.projectRoot];
+		const parent = path.dirname(fromRoot);
+		if (parent !== ".") {
+			for (const segment of parent.split(path.sep)) {
+				dirs.push(path.join(dirs[dirs.length - 1], segment));
+			}
+		}
+
+		let ignored = false;
+		for (const dir of dirs) {
+			const matcher = await this.matcherFor(dir);
+			if (!matcher) continue;
+			const relative = path
+				.relative(dir, absolutePath)
+				.split(path.sep)
+				.join("/");
+			const result = matcher.test(`${relative}${suffix}`);
+			if (result.ignored) ignored = true;
+			else if (result.unignored) ignored = false;
+		}
+		return ignored;
+	}
+}
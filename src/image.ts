@@ -0,0 +1,186 @@
+import { readFile, stat } from "node:fs/promises";
+import { MIME_HEADER_LENGTH, detectMimeType, readFileHeader } from "./mime";
+
+// Formats Claude can view when returned as image content
+export const SUPPORTED_IMAGE_TYPES = new Set([
+	"image/png",
+	"image/jpeg",
+	"image/gif",
+	"image/webp",
+]);
+
+// Claude rejects images larger than this
+export const DEFAULT_MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// JPEG dimensions live in a SOF segment that can follow large EXIF blocks
+const IMAGE_INFO_HEADER_LENGTH = 512 * 1024;
+
+export interface ImageInfo {
+	mimeType: string;
+	format: string;
+	width?: number;
+	height?: number;
+}
+
+function jpegDimensions(buffer: Buffer) {
+	let offset = 2;
+	while (offset + 9 < buffer.length) {
+		if (buffer[offset] !== 0xff) return undefined;
+		const marker = buffer[offset + 1];
+		// Standalone markers carry no length
+		if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) {
+			offset += 2;
+			continue;
+		}
+		// SOF0-SOF15, excluding DHT (c4), JPG (c8) and DAC (cc)
+		if (
+			marker >= 0xc0 &&
+			marker <= 0xcf &&
+			marker !== 0xc4 &&
+			marker !== 0xc8 &&
+			marker !== 0xcc
+		) {
+			return {
+				height: buffer.readUInt16BE(offset + 5),
+				width: buffer.readUInt16BE(offset + 7),
+			};
+		}
+		offset += 2 + buffer.readUInt16BE(offset + 2);
+	}
+	return undefined;
+}
+
+function webpDimensions(buffer: Buffer) {
+	if (buffer.length < 30) return undefined;
+	const chunk = buffer.toString("ascii", 12, 16);
+	if (chunk === "VP8X") {
+		return {
+			width: 1 + buffer.readUIntLE(24, 3),
+			height: 1 + buffer.readUIntLE(27, 3),
+		};
+	}
+	if (chunk === "VP8L") {
+		const bits = buffer.readUInt32LE(21);
+		return {
+			width: 1 + (bits & 0x3fff),
+			height: 1 + ((bits >> 14) & 0x3fff),
+		};
+	}
+	if (chunk === "VP8 ") {
+		return {
+			width: buffer.readUInt16LE(26) & 0x3fff,
+			height: buffer.readUInt16LE(28) & 0x3fff,
+		};
+	}
+	return undefined;
+}
+
+// Read an image's format and pixel dimensions from its header bytes
+export function parseImageInfo(buffer: Buffer): ImageInfo | undefined {
+	const mimeType = detectMimeType(buffer);
+	if (!mimeType.startsWith("image/")) return undefined;
+	const format = mimeType.slice("image/".length);
+
+	let dimensions: { width: number; height: number } | undefined;
+	switch (mimeType) {
+		case "image/png":
+			if (buffer.length >= 24) {
+				dimensions = {
+					width: buffer.readUInt32BE(16),
+					height: buffer.readUInt32BE(20),
+				};
+			}
+			break;
+		case "image/gif":
+			if (buffer.length >= 10) {
+				dimensions = {
+					width: buffer.readUInt16LE(6),
+					height: buffer.readUInt16LE(8),
+				};
+			}
+			break;
+		case "image/bmp":
+			if (buffer.length >= 26) {
+				dimensions = {
+					width: buffer.readInt32LE(18),
+					height: Math.abs(buffer.readInt32LE(22)),
+				};
+			}
+			break;
+		case "image/jpeg":
+			dimensions = jpegDimensions(buffer);
+			break;
+		case "image/webp":
+			dimensions = webpDimensions(buffer);
+			break;
+	}
+	return { mimeType, format, ...dimensions };
+}
+
+export async function getImageInfo(
+	filePath: string,
+): Promise<ImageInfo | undefined> {
+	const header = await readFileHeader(filePath, MIME_HEADER_LENGTH);
+	if (!detectMimeType(header).startsWith("image/")) return undefined;
+	return parseImageInfo(
+		await readFileHeader(filePath, IMAGE_INFO_HEADER_LENGTH),
+	);
+}
+
+export interface ImageLimits {
+	maxBytes?: number;
+	maxDimension?: number;
+}
+
+// Returns base64 image content, or a text explanation when the image is in a
+// format Claude cannot view or exceeds the given limits
+export async function readImageContent(
+	filePath: string,
+	limits: ImageLimits = {},
+): Promise<
+	| { type: "image"; data: string; mimeType: string }
+	| { type: "text"; text: string }
+> {
+	// Only the header is read until the image is known to be returned, so
+	// huge or undisplayable files are described without loading them
+	const { size: bytes } = await stat(filePath);
+	const info = parseImageInfo(
+		await readFileHeader(filePath, IMAGE_INFO_HEADER_LENGTH),
+	);
+	if (!info) {
+		throw new Error(`Not an image: ${filePath}`);
+	}
+
+	const maxBytes = limits.maxBytes ?? DEFAULT_MAX_IMAGE_BYTES;
+	const size =
+		info.width && info.height ? `${info.width}x${info.height}` : "unknown size";
+	const describe = `${info.format} image, ${size}, ${bytes} bytes`;
+
+	if (!SUPPORTED_IMAGE_TYPES.has(info.mimeType)) {
+		return {
+			type: "text",
+			text: `${describe} (format cannot be displayed; supported: png, jpeg, gif, webp)`,
+		};
+	}
+	if (bytes > maxBytes) {
+		return {
+			type: "text",
+			text: `${describe} (larger than the ${maxBytes} byte limit)`,
+		};
+	}
+	if (
+		limits.maxDimension &&
+		((info.width ?? 0) > limits.maxDimension ||
+			(info.height ?? 0) > limits.maxDimension)
+	) {
+		return {
+			type: "text",
+			text: `${describe} (exceeds the ${limits.maxDimension}px dimension limit)`,
+		};
+	}
+	return {
+		type: "image",
+		data: (await readFile(filePath)).toString("base64"),
+		mimeType: info.mimeType,
+	};
+}
@@ -1,128 +1,246 @@
 import os from "node:os";
 import path from "node:path";
+import { parseArgs } from "node:util";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
 	CallToolRequestSchema,
+	ListResourceTemplatesRequestSchema,
+	ListResourcesRequestSchema,
 	ListToolsRequestSchema,
+	ReadResourceRequestSchema,
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import * as access from "./access";
+import * as archive from "./archive";
+import * as code from "./code";
+import { TOKEN_FILE, loadAllowedDirectories, readToken } from "./config";
+import * as context from "./context";
+import * as duplicates from "./duplicates";
+import * as find from "./find";
 import * as fs from "./fs";
+import type { AllowedDirectory } from "./fs";
+import * as history from "./history";
+import {
+	DEFAULT_HTTP_HOST,
+	DEFAULT_HTTP_PORT,
+	MCP_PATH,
+	serveHttp,
+} from "./http";
+import * as patch from "./patch";
+import * as resources from "./resources";
+import * as semantic from "./semantic";
+import {
+	isToolEnabled,
+	loadSettings,
+	setSettings,
+	watchConfigFiles,
+} from "./settings";
+import * as tree from "./tree";
+
+const toolModules = [
+	fs,
+	tree,
+	find,
+	duplicates,
+	code,
+	patch,
+	history,
+	semantic,
+	context,
+	access,
+	archive,
+];
+
+// Directories passed on the command line are allowed for this session only.
+// --http serves clients over HTTP instead of a single one over stdio.
+const { values: options, positionals: sessionDirectories } = parseArgs({
+	args: process.argv.slice(2),
+	allowPositionals: true,
+	options: {
+		http: { type: "boolean" },
+		host: { type: "string", default: DEFAULT_HTTP_HOST },
+		port: { type: "string", default: String(DEFAULT_HTTP_PORT) },
+	},
+});
 
-const CONFIG_DIR = path.join(os.homedir(), ".config", "semantic-fs");
-const CONFIG_FILE = path.join(CONFIG_DIR, "approved.json");
+// Allowed directories and settings are loaded when the server starts and
+// again whenever a config file changes, rather than on every request
+let allowedDirectories: AllowedDirectory[] = [];
+// Connected servers, so they can be told when the tool list changes
+const servers = new Set<Server>();
 
-import {
-	mkdir,
-	readFile,
-	readdir,
-	rm,
-	stat,
-	writeFile,
-} from "node:fs/promises";
-// Initialize config directory and file if they don't exist
-async function initializeConfig() {
-	try {
-		try {
-			await readFile(CONFIG_FILE, "utf-8");
-		} catch {
-			await writeFile(
-				CONFIG_FILE,
-				JSON.stringify({ allowedDirectories: [] }, null, 2),
-			);
-		}
-	} catch {
-		await mkdir(CONFIG_DIR, { recursive: true });
-		await writeFile(
-			CONFIG_FILE,
-			JSON.stringify({ allowedDirectories: [] }, null, 2),
-		);
-	}
+function enabledTools() {
+	return toolModules
+		.flatMap((module) => module.tools)
+		.filter((tool) => isToolEnabled(tool.name));
 }
 
-// Load allowed directories from config
-async function loadAllowedDirectories(): Promise<string[]> {
-	await initializeConfig();
-	const configData = await readFile(CONFIG_FILE, "utf-8");
-	const config = JSON.parse(configData);
-	return config.allowedDirectories.map((dir: string) =>
-		fs.normalizePath(path.resolve(fs.expandHome(dir))),
-	);
+async function loadConfig() {
+	const [settings, directories] = await Promise.all([
+		loadSettings(),
+		loadAllowedDirectories(sessionDirectories),
+	]);
+	setSettings(settings);
+	allowedDirectories = directories;
 }
 
-// Add new directories to config
-async function addAllowedDirectories(directories: string[]) {
-	const configData = await readFile(CONFIG_FILE, "utf-8");
-	const config = JSON.parse(configData);
-	const normalizedNew = directories.map((dir) =>
-		fs.normalizePath(path.resolve(fs.expandHome(dir))),
+// A broken config file keeps the last good configuration in place
+async function reloadConfig() {
+	const previousTools = JSON.stringify(enabledTools().map((tool) => tool.name));
+	try {
+		await loadConfig();
+	} catch (error) {
+		console.error(
+			"Keeping the previous configuration:",
+			error instanceof Error ? error.message : error,
+		);
+		return;
+	}
+	console.error(
+		"Configuration reloaded; allowed directories:",
+		allowedDirectories.map(fs.describeAllowedDirectory),
 	);
-
-	config.allowedDirectories = [
-		...new Set([...config.allowedDirectories, ...normalizedNew]),
-	];
-
-	await writeFile(CONFIG_FILE, JSON.stringify(config, null, 2));
-	return config.allowedDirectories;
+	if (
+		JSON.stringify(enabledTools().map((tool) => tool.name)) !== previousTools
+	) {
+		for (const server of servers) {
+			server.sendToolListChanged().catch((error) => {
+				console.error("Failed to send tool list update:", error);
+			});
+		}
+	}
+	await semantic.startIndexer(allowedDirectories);
 }
 
-// Server setup
-const server = new Server(
-	{
-		name: "secure-filesystem-server",
-		version: "0.2.0",
-	},
-	{
-		capabilities: {
-			tools: {},
+// Server setup. Over HTTP every client session gets its own server.
+function createServer(): Server {
+	const server = new Server(
+		{
+			name: "secure-filesystem-server",
+			version: "0.2.0",
 		},
-	},
-);
-
-// Tool handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-	return {
-		tools: fs.tools,
+		{
+			capabilities: {
+				tools: { listChanged: true },
+				resources: { subscribe: true },
+			},
+		},
+	);
+	const subscriptions = new resources.ResourceSubscriptions();
+	server.oninitialized = () => servers.add(server);
+	server.onclose = () => {
+		servers.delete(server);
+		subscriptions.close();
 	};
-});
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-	try {
-		const { name, arguments: args } = request.params;
-		const allowedDirectories = await loadAllowedDirectories();
+	// Tool handlers
+	server.setRequestHandler(ListToolsRequestSchema, async () => {
+		return {
+			tools: enabledTools(),
+		};
+	});
 
-		// Add command line arguments to allowed directories if provided
-		if (process.argv.length > 2) {
-			await addAllowedDirectories(process.argv.slice(2));
+	server.setRequestHandler(CallToolRequestSchema, async (request) => {
+		try {
+			const { name, arguments: args } = request.params;
+
+			// Handle filesystem tools
+			if (name.startsWith("fs_")) {
+				if (!isToolEnabled(name)) {
+					throw new Error(`Tool ${name} is disabled in the settings`);
+				}
+				for (const module of toolModules) {
+					const result = await module.handleTool(
+						name,
+						args,
+						allowedDirectories,
+					);
+					if (result) return result;
+				}
+			}
+
+			throw new Error(`Unknown tool: ${name}`);
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+			return {
+				content: [{ type: "text", text: `Error: ${errorMessage}` }],
+				isError: true,
+			};
 		}
+	});
+
+	// Resource handlers
+	server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+		return resources.listResources(allowedDirectories, request.params?.cursor);
+	});
+
+	server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+		return resources.listResourceTemplates();
+	});
+
+	server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+		return resources.readResource(request.params.uri, allowedDirectories);
+	});
+
+	server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+		await subscriptions.subscribe(
+			request.params.uri,
+			allowedDirectories,
+			(uri) => {
+				server.sendResourceUpdated({ uri }).catch((error) => {
+					console.error("Failed to send resource update:", error);
+				});
+			},
+		);
+		return {};
+	});
 
-		// Handle filesystem tools
-		if (name.startsWith("fs_")) {
-			const result = await fs.handleTool(name, args, allowedDirectories);
-			if (result) return result;
-		}
+	server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+		subscriptions.unsubscribe(request.params.uri);
+		return {};
+	});
 
-		throw new Error(`Unknown tool: ${name}`);
-	} catch (error) {
-		const errorMessage = error instanceof Error ? error.message : String(error);
-		return {
-			content: [{ type: "text", text: `Error: ${errorMessage}` }],
-			isError: true,
-		};
-	}
-});
+	return server;
+}
 
 // Start server
 async function runServer() {
-	const transport = new StdioServerTransport();
-	await server.connect(transport);
-	console.error("Secure MCP Filesystem Server running on stdio");
+	await loadConfig();
+	await watchConfigFiles(() => void reloadConfig());
 
-	const allowedDirectories = await loadAllowedDirectories();
-	if (process.argv.length > 2) {
-		await addAllowedDirectories(process.argv.slice(2));
+	if (options.http) {
+		const port = Number(options.port);
+		if (!Number.isInteger(port) || port < 0 || port > 65535) {
+			throw new Error(`Invalid port: ${options.port}`);
+		}
+		// Create the token up front so clients can be given it before connecting
+		await readToken();
+		await serveHttp(createServer, {
+			host: options.host,
+			port,
+			getToken: readToken,
+		});
+		console.error(
+			`Secure MCP Filesystem Server running on http://${options.host}:${port}${MCP_PATH}`,
+		);
+		console.error(
+			`Clients must send "Authorization: Bearer <token>" with the token in ${TOKEN_FILE}`,
+		);
+	} else {
+		await createServer().connect(new StdioServerTransport());
+		console.error("Secure MCP Filesystem Server running on stdio");
 	}
 
-	console.error("Allowed directories:", allowedDirectories);
+	console.error(
+		"Allowed directories:",
+		allowedDirectories.map(fs.describeAllowedDirectory),
+	);
+
+	// Build and watch the semantic index in the background
+	await semantic.startIndexer(allowedDirectories);
 }
 
 runServer().catch((error) => {
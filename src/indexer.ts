@@ -0,0 +1,267 @@
+import { type FSWatcher, watch } from "node:fs";
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { type AllowedDirectory, isExcluded, validatePath } from "./fs";
+import { isPathWithin, resolveRoot } from "./path-policy";
+import {
+	DEFAULT_INDEX_EXCLUDES,
+	type IndexOutcome,
+	type SemanticIndex,
+	walkFiles,
+} from "./semantic-index";
+
+export interface IndexRun {
+	startedAt: Date;
+	finishedAt: Date;
+	indexed: number;
+	unchanged: number;
+	skipped: number;
+	removed: number;
+	failed: number;
+}
+
+export interface IndexStatus {
+	roots: string[];
+	watching: string[];
+	running: boolean;
+	filesIndexed: number;
+	chunks: number;
+	pending: number;
+	failed: Array<{ path: string; error: string }>;
+	lastRun?: IndexRun;
+}
+
+// Keeps a SemanticIndex in sync with the allowed directories. Changes reported
+// by the file watchers are queued, debounced and processed one batch at a time.
+export class Indexer {
+	readonly index: SemanticIndex;
+	private readonly debounceMs: number;
+	private allowedDirectories: AllowedDirectory[] = [];
+	private roots: string[] = [];
+	private watchers = new Map<string, FSWatcher>();
+	private queue = new Set<string>();
+	private inFlight = 0;
+	private failed = new Map<string, string>();
+	private timer: ReturnType<typeof setTimeout> | undefined;
+	private chain: Promise<unknown> = Promise.resolve();
+	private running = false;
+	private lastRun: IndexRun | undefined;
+
+	constructor(index: SemanticIndex, debounceMs = 500) {
+		this.index = index;
+		this.debounceMs = debounceMs;
+	}
+
+	// Point the indexer at a new set of roots, rewatching and rescanning only
+	// when they actually changed. Roots are resolved like the paths stored in
+	// the index, so a symlinked allowed directory still contains its files.
+	async setRoots(allowedDirectories: AllowedDirectory[]): Promise<void> {
+		if (
+			JSON.stringify(allowedDirectories) ===
+			JSON.stringify(this.allowedDirectories)
+		) {
+			return;
+		}
+		this.allowedDirectories = allowedDirectories;
+		const roots = [
+			...new Set(
+				await Promise.all(
+					allowedDirectories.map((dir) => resolveRoot(dir.path)),
+				),
+			),
+		];
+		// A later call has already taken over
+		if (this.allowedDirectories !== allowedDirectories) return;
+		this.roots = roots;
+
+		// Forget files from directories that are no longer allowed, and save
+		// straight away so their chunks do not linger on disk. The save joins
+		// the chain so it cannot overlap one from a batch.
+		let removed = false;
+		for (const filePath of this.index.paths()) {
+			if (!roots.some((root) => isPathWithin(root, filePath))) {
+				removed = this.index.remove(filePath) || removed;
+			}
+		}
+		if (removed) {
+			const saved = this.chain.then(() => this.index.save());
+			this.chain = saved.catch((error) => {
+				console.error("Saving the index failed:", error);
+			});
+		}
+
+		for (const [root, watcher] of this.watchers) {
+			if (!roots.includes(root)) {
+				watcher.close();
+				this.watchers.delete(root);
+			}
+		}
+		for (const root of roots) {
+			if (!this.watchers.has(root)) this.watch(root);
+		}
+
+		void this.reindex().catch((error) => {
+			console.error("Indexing failed:", error);
+		});
+	}
+
+	stop(): void {
+		clearTimeout(this.timer);
+		for (const watcher of this.watchers.values()) watcher.close();
+		this.watchers.clear();
+	}
+
+	private watch(root: string) {
+		try {
+			const watcher = watch(root, { recursive: true }, (_event, filename) => {
+				this.enqueue(filename ? path.join(root, filename.toString()) : root);
+			});
+			watcher.on("error", (error) => {
+				console.error(`Stopped watching ${root}:`, error);
+				watcher.close();
+				this.watchers.delete(root);
+			});
+			this.watchers.set(root, watcher);
+		} catch (error) {
+			console.error(`Could not watch ${root}:`, error);
+		}
+	}
+
+	enqueue(filePath: string): void {
+		const root = this.roots.find((dir) => isPathWithin(dir, filePath));
+		if (!root) return;
+		if (isExcluded(path.relative(root, filePath), DEFAULT_INDEX_EXCLUDES)) {
+			return;
+		}
+		this.queue.add(filePath);
+		clearTimeout(this.timer);
+		this.timer = setTimeout(() => {
+			void this.drain().catch((error) => {
+				console.error("Indexing failed:", error);
+			});
+		}, this.debounceMs);
+	}
+
+	// Reindex everything, or only the given files and directories
+	async reindex(paths?: string[], force = false): Promise<IndexRun> {
+		const targets = paths ?? this.roots;
+		if (force) {
+			for (const filePath of this.index.paths()) {
+				if (targets.some((target) => isPathWithin(target, filePath))) {
+					this.index.remove(filePath);
+				}
+			}
+		}
+		for (const target of targets) {
+			this.queue.add(target);
+			// Indexed files that no longer exist will not be found by the walk
+			for (const filePath of this.index.paths()) {
+				if (isPathWithin(target, filePath)) this.queue.add(filePath);
+			}
+		}
+		return this.drain();
+	}
+
+	private drain(): Promise<IndexRun> {
+		clearTimeout(this.timer);
+		const run = this.chain.then(() => this.processQueue());
+		this.chain = run.catch(() => undefined);
+		return run;
+	}
+
+	private async processQueue(): Promise<IndexRun> {
+		const run: IndexRun = {
+			startedAt: new Date(),
+			finishedAt: new Date(),
+			indexed: 0,
+			unchanged: 0,
+			skipped: 0,
+			removed: 0,
+			failed: 0,
+		};
+		this.running = true;
+		try {
+			while (this.queue.size > 0) {
+				const batch = [...this.queue];
+				this.queue.clear();
+				this.inFlight = batch.length;
+				for (const filePath of batch) {
+					const outcome = await this.processPath(filePath);
+					run[outcome]++;
+					this.inFlight--;
+				}
+			}
+			if (run.indexed + run.skipped + run.removed > 0) {
+				await this.index.save();
+			}
+		} finally {
+			this.running = false;
+			this.inFlight = 0;
+			run.finishedAt = new Date();
+			this.lastRun = run;
+		}
+		return run;
+	}
+
+	private async processPath(
+		filePath: string,
+	): Promise<IndexOutcome | "removed" | "failed"> {
+		try {
+			let stats: Awaited<ReturnType<typeof stat>>;
+			try {
+				stats = await stat(filePath);
+			} catch {
+				this.failed.delete(filePath);
+				return this.removeUnder(filePath) ? "removed" : "unchanged";
+			}
+
+			if (stats.isDirectory()) {
+				for await (const child of walkFiles(
+					filePath,
+					this.allowedDirectories,
+				)) {
+					this.queue.add(child);
+				}
+				return "unchanged";
+			}
+
+			const validPath = await validatePath(filePath, this.allowedDirectories);
+			const outcome = await this.index.indexFile(validPath);
+			this.failed.delete(filePath);
+			return outcome;
+		} catch (error) {
+			this.index.remove(filePath);
+			this.failed.set(
+				filePath,
+				error instanceof Error ? error.message : String(error),
+			);
+			return "failed";
+		}
+	}
+
+	private removeUnder(target: string): boolean {
+		let removed = false;
+		for (const filePath of this.index.paths()) {
+			if (isPathWithin(target, filePath)) {
+				removed = this.index.remove(filePath) || removed;
+			}
+		}
+		return removed;
+	}
+
+	status(): IndexStatus {
+		return {
+			roots: this.roots,
+			watching: [...this.watchers.keys()],
+			running: this.running,
+			filesIndexed: this.index.fileCount,
+			chunks: this.index.chunkCount,
+			pending: this.queue.size + this.inFlight,
+			failed: [...this.failed].map(([filePath, error]) => ({
+				path: filePath,
+				error,
+			})),
+			lastRun: this.lastRun,
+		};
+	}
+}
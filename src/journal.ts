@@ -0,0 +1,417 @@
+import { createHash, randomBytes } from "node:crypto";
+import {
+	mkdir,
+	readFile,
+	readdir,
+	rename,
+	rm,
+	rmdir,
+	stat,
+	writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+import { CONFIG_DIR } from "./config";
+import { movePath, pathExists } from "./transfer";
+import { getTrash } from "./trash";
+
+// Older entries are dropped, with any snapshots only they referenced
+const MAX_JOURNAL_ENTRIES = 200;
+
+// Bigger files are journaled without their content and cannot be restored
+const MAX_SNAPSHOT_SIZE = 20 * 1024 * 1024;
+
+// A file's content at one point in time; null in a change means the file did
+// not exist. hash is missing when the file was too large to snapshot.
+export interface FileSnapshot {
+	hash?: string;
+	size: number;
+}
+
+export type JournalChange =
+	| {
+			type: "file";
+			path: string;
+			before: FileSnapshot | null;
+			after: FileSnapshot | null;
+	  }
+	| {
+			// Directories created by one mkdir, outermost first
+			type: "directory";
+			paths: string[];
+	  }
+	| {
+			// A file or directory renamed or moved as a whole
+			type: "move";
+			from: string;
+			to: string;
+	  }
+	| {
+			type: "copy";
+			from: string;
+			to: string;
+	  }
+	| {
+			// A file or directory moved into the trash
+			type: "delete";
+			path: string;
+			trashPath: string;
+	  };
+
+export interface JournalEntry {
+	id: number;
+	operation: string;
+	timestamp: string;
+	changes: JournalChange[];
+	undoneAt?: string;
+}
+
+function hashContent(content: Buffer): string {
+	return createHash("sha1").update(content).digest("hex");
+}
+
+function describeSnapshot(snapshot: FileSnapshot | null): string {
+	return snapshot ? `${snapshot.size} bytes` : "absent";
+}
+
+function pathsOf(change: JournalChange): string[] {
+	switch (change.type) {
+		case "file":
+		case "delete":
+			return [change.path];
+		case "directory":
+			return change.paths;
+		case "move":
+			return [change.from, change.to];
+		case "copy":
+			return [change.to];
+	}
+}
+
+export function changedPaths(entry: JournalEntry): string[] {
+	return entry.changes.flatMap(pathsOf);
+}
+
+export class Journal {
+	private entriesFile: string;
+	private snapshotDir: string;
+	// Serializes updates to the journal file
+	private chain: Promise<unknown> = Promise.resolve();
+
+	constructor(private journalDir: string) {
+		this.entriesFile = path.join(journalDir, "entries.json");
+		this.snapshotDir = path.join(journalDir, "snapshots");
+	}
+
+	private serialize<T>(task: () => Promise<T>): Promise<T> {
+		const result = this.chain.then(task, task);
+		this.chain = result.catch(() => undefined);
+		return result;
+	}
+
+	// Only a missing file means an empty journal; anything else is raised, so
+	// that the next record does not write over a history it could not read
+	async entries(): Promise<JournalEntry[]> {
+		let content: string;
+		try {
+			content = await readFile(this.entriesFile, "utf-8");
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+			throw error;
+		}
+		try {
+			const entries = JSON.parse(content);
+			if (Array.isArray(entries)) return entries;
+		} catch {}
+		throw new Error(
+			`The change journal ${this.entriesFile} is malformed; fix or remove it to record changes again`,
+		);
+	}
+
+	// Written to a temporary file and renamed over the old one, so a crash
+	// leaves either the old entries or the new ones
+	private async writeEntries(entries: JournalEntry[]) {
+		await mkdir(this.journalDir, { recursive: true });
+		const tempFile = `${this.entriesFile}.${randomBytes(6).toString("hex")}.tmp`;
+		try {
+			await writeFile(tempFile, JSON.stringify(entries, null, 2));
+			await rename(tempFile, this.entriesFile);
+		} catch (error) {
+			await rm(tempFile, { force: true });
+			throw error;
+		}
+	}
+
+	// Store a file's current content, returning null if it does not exist
+	async snapshot(filePath: string): Promise<FileSnapshot | null> {
+		const stats = await stat(filePath).catch(() => null);
+		if (!stats?.isFile()) return null;
+		if (stats.size > MAX_SNAPSHOT_SIZE) return { size: stats.size };
+
+		const content = await readFile(filePath);
+		const hash = hashContent(content);
+		const snapshotPath = path.join(this.snapshotDir, hash);
+		if (!(await stat(snapshotPath).catch(() => null))) {
+			await mkdir(this.snapshotDir, { recursive: true });
+			await writeFile(snapshotPath, content);
+		}
+		return { hash, size: content.length };
+	}
+
+	async record(
+		operation: string,
+		changes: JournalChange[],
+	): Promise<JournalEntry> {
+		return this.serialize(async () => {
+			const entries = await this.entries();
+			const entry: JournalEntry = {
+				id: (entries[entries.length - 1]?.id ?? 0) + 1,
+				operation,
+				timestamp: new Date().toISOString(),
+				changes,
+			};
+			entries.push(entry);
+			const dropped = entries.splice(
+				0,
+				Math.max(0, entries.length - MAX_JOURNAL_ENTRIES),
+			);
+			await this.writeEntries(entries);
+			if (dropped.length > 0) await this.pruneSnapshots(entries);
+			return entry;
+		});
+	}
+
+	// Run a mutation of the given files and journal what it changed. The
+	// mutation may add changes of its own, such as directories it created,
+	// which are undone after the files. Nothing is recorded when the mutation
+	// fails or leaves everything as it was.
+	async track<T>(
+		operation: string,
+		filePaths: string[],
+		mutate: (changes: JournalChange[]) => Promise<T>,
+	): Promise<T> {
+		// Fail before changing anything if the change could not be recorded
+		await this.entries();
+		const before = await Promise.all(filePaths.map((p) => this.snapshot(p)));
+		const changes: JournalChange[] = [];
+		const result = await mutate(changes);
+		for (const [i, filePath] of filePaths.entries()) {
+			const after = await this.snapshot(filePath);
+			if (before[i]?.hash !== after?.hash || before[i]?.size !== after?.size) {
+				changes.push({
+					type: "file",
+					path: filePath,
+					before: before[i],
+					after,
+				});
+			}
+		}
+		if (changes.length > 0) await this.record(operation, changes);
+		return result;
+	}
+
+	private async pruneSnapshots(entries: JournalEntry[]) {
+		const referenced = new Set(
+			entries.flatMap((entry) =>
+				entry.changes.flatMap((change) =>
+					change.type === "file"
+						? [change.before?.hash, change.after?.hash]
+						: [],
+				),
+			),
+		);
+		const stored = await readdir(this.snapshotDir).catch(() => []);
+		for (const hash of stored) {
+			if (!referenced.has(hash)) {
+				await rm(path.join(this.snapshotDir, hash), { force: true });
+			}
+		}
+	}
+
+	private async checkFile(
+		entry: JournalEntry,
+		change: Extract<JournalChange, { type: "file" }>,
+	) {
+		if (change.before && change.before.hash === undefined) {
+			throw new Error(
+				`Cannot undo #${entry.id}: ${change.path} was too large to snapshot`,
+			);
+		}
+		const current = await this.snapshot(change.path);
+		if (
+			current?.hash !== change.after?.hash ||
+			current?.size !== change.after?.size
+		) {
+			throw new Error(
+				`Cannot undo #${entry.id} (${entry.operation}): ${change.path} has changed since ` +
+					`(expected ${describeSnapshot(change.after)}, found ${describeSnapshot(current)})`,
+			);
+		}
+	}
+
+	// Entries that are put back or removed before the directories are, such
+	// as files created in them by the same change, do not count
+	private async checkDirectories(
+		entry: JournalEntry,
+		paths: string[],
+		touched: Set<string>,
+	) {
+		for (const [i, dirPath] of paths.entries()) {
+			const contents = (await readdir(dirPath).catch(() => null))?.filter(
+				(name) => !touched.has(path.join(dirPath, name)),
+			);
+			const expected = paths[i + 1] ? [path.basename(paths[i + 1])] : [];
+			if (
+				!contents ||
+				contents.length !== expected.length ||
+				contents.some((name, j) => name !== expected[j])
+			) {
+				throw new Error(
+					`Cannot undo #${entry.id} (${entry.operation}): ${dirPath} is no longer empty`,
+				);
+			}
+		}
+	}
+
+	private async checkExists(
+		entry: JournalEntry,
+		itemPath: string,
+		expected: boolean,
+	) {
+		if ((await pathExists(itemPath)) !== expected) {
+			throw new Error(
+				`Cannot undo #${entry.id} (${entry.operation}): ${itemPath} ${expected ? "no longer exists" : "exists again"}`,
+			);
+		}
+	}
+
+	// Paths in touched are put back by a newer change before this one is
+	// reverted, so their current state says nothing about this change
+	private async checkChange(
+		entry: JournalEntry,
+		change: JournalChange,
+		touched: Set<string>,
+	) {
+		switch (change.type) {
+			case "file":
+				if (!touched.has(change.path)) await this.checkFile(entry, change);
+				break;
+			case "directory":
+				if (!change.paths.some((p) => touched.has(p))) {
+					await this.checkDirectories(entry, change.paths, touched);
+				}
+				break;
+			case "move":
+				if (!touched.has(change.to)) {
+					await this.checkExists(entry, change.to, true);
+				}
+				if (!touched.has(change.from)) {
+					await this.checkExists(entry, change.from, false);
+				}
+				break;
+			case "copy":
+				if (!touched.has(change.to)) {
+					await this.checkExists(entry, change.to, true);
+				}
+				break;
+			case "delete":
+				await this.checkExists(entry, change.trashPath, true);
+				if (!touched.has(change.path)) {
+					await this.checkExists(entry, change.path, false);
+				}
+				break;
+		}
+	}
+
+	private async revertChange(change: JournalChange) {
+		switch (change.type) {
+			case "file":
+				if (change.before?.hash) {
+					await mkdir(path.dirname(change.path), { recursive: true });
+					await writeFile(
+						change.path,
+						await readFile(path.join(this.snapshotDir, change.before.hash)),
+					);
+				} else {
+					await rm(change.path, { force: true });
+				}
+				break;
+			case "directory":
+				for (const dirPath of [...change.paths].reverse()) {
+					await rmdir(dirPath);
+				}
+				break;
+			case "move":
+				await mkdir(path.dirname(change.from), { recursive: true });
+				await movePath(change.to, change.from);
+				break;
+			case "copy":
+				// The copy may have been edited since, so it is kept in the trash
+				await getTrash().put(change.to);
+				break;
+			case "delete":
+				await getTrash().restore(change.trashPath, change.path);
+				break;
+		}
+	}
+
+	// Revert entries, newest first. Every change is checked before anything is
+	// restored, so a conflict leaves all files untouched.
+	async undo(ids: number[]): Promise<JournalEntry[]> {
+		return this.serialize(async () => {
+			const entries = await this.entries();
+			const selected = ids
+				.map((id) => {
+					const entry = entries.find((e) => e.id === id);
+					if (!entry) throw new Error(`No journal entry #${id}`);
+					if (entry.undoneAt) {
+						throw new Error(`Journal entry #${id} has already been undone`);
+					}
+					return entry;
+				})
+				.sort((a, b) => b.id - a.id);
+
+			// A path touched by several changes is only checked against the
+			// newest; the older ones restore on top of what it puts back
+			const touched = new Set<string>();
+			for (const entry of selected) {
+				for (const change of [...entry.changes].reverse()) {
+					await this.checkChange(entry, change, touched);
+					for (const p of pathsOf(change)) touched.add(p);
+				}
+			}
+
+			for (const entry of selected) {
+				for (const change of [...entry.changes].reverse()) {
+					await this.revertChange(change);
+				}
+				entry.undoneAt = new Date().toISOString();
+			}
+			await this.writeEntries(entries);
+			return selected;
+		});
+	}
+}
+
+// Create a directory and any missing parents, returning the change that
+// undoes it, or undefined if the directory already existed
+export async function makeDirectories(
+	dirPath: string,
+): Promise<JournalChange | undefined> {
+	// mkdir returns the outermost directory it had to create
+	const created = await mkdir(dirPath, { recursive: true });
+	if (!created) return undefined;
+	const paths = [created];
+	for (const segment of path.relative(created, dirPath).split(path.sep)) {
+		if (segment) paths.push(path.join(paths[paths.length - 1], segment));
+	}
+	return { type: "directory", paths };
+}
+
+let sharedJournal: Journal | undefined;
+
+export function getJournal(): Journal {
+	if (!sharedJournal) {
+		sharedJournal = new Journal(path.join(CONFIG_DIR, "journal"));
+	}
+	return sharedJournal;
+}
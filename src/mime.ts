@@ -0,0 +1,156 @@
+import { open } from "node:fs/promises";
+import path from "node:path";
+
+// Sizes of the BMP info headers in use (BITMAPCOREHEADER to BITMAPV5HEADER)
+const BMP_INFO_HEADER_SIZES = new Set([12, 40, 56, 108, 124]);
+
+// "BM" alone is too weak a signature, plenty of text starts with it. A real
+// BMP also declares a plausible file size, zeroed reserved bytes and a known
+// info header size.
+function isBmpHeader(header: Uint8Array): boolean {
+	if (header.length < 18) return false;
+	const view = new DataView(header.buffer, header.byteOffset, header.length);
+	return (
+		view.getUint32(2, true) >= 14 + 12 &&
+		view.getUint32(6, true) === 0 &&
+		BMP_INFO_HEADER_SIZES.has(view.getUint32(14, true))
+	);
+}
+
+// Signatures are checked against the first bytes of a file; null entries in a
+// pattern match any byte. Signatures with a check must also pass it.
+const SIGNATURES: Array<{
+	mimeType: string;
+	offset?: number;
+	bytes: Array<number | null>;
+	check?: (header: Uint8Array) => boolean;
+}> = [
+	{
+		mimeType: "image/png",
+		bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+	},
+	{ mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+	{ mimeType: "image/gif", bytes: [0x47, 0x49, 0x46, 0x38] },
+	{
+		mimeType: "image/webp",
+		bytes: [
+			0x52,
+			0x49,
+			0x46,
+			0x46,
+			null,
+			null,
+			null,
+			null,
+			0x57,
+			0x45,
+			0x42,
+			0x50,
+		],
+	},
+	{ mimeType: "image/bmp", bytes: [0x42, 0x4d], check: isBmpHeader },
+	{ mimeType: "image/tiff", bytes: [0x49, 0x49, 0x2a, 0x00] },
+	{ mimeType: "image/tiff", bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+	{ mimeType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+	{ mimeType: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+	{ mimeType: "application/zip", bytes: [0x50, 0x4b, 0x05, 0x06] },
+	{ mimeType: "application/gzip", bytes: [0x1f, 0x8b] },
+];
+
+// Enough bytes to match every signature above
+export const MIME_HEADER_LENGTH = 18;
+
+const EXTENSION_TYPES: Record<string, string> = {
+	".txt": "text/plain",
+	".md": "text/markdown",
+	".markdown": "text/markdown",
+	".html": "text/html",
+	".htm": "text/html",
+	".css": "text/css",
+	".csv": "text/csv",
+	".tsv": "text/tab-separated-values",
+	".xml": "application/xml",
+	".json": "application/json",
+	".js": "text/javascript",
+	".mjs": "text/javascript",
+	".cjs": "text/javascript",
+	".ts": "text/typescript",
+	".tsx": "text/typescript",
+	".jsx": "text/javascript",
+	".yaml": "application/yaml",
+	".yml": "application/yaml",
+	".svg": "image/svg+xml",
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".gif": "image/gif",
+	".webp": "image/webp",
+	".pdf": "application/pdf",
+	".docx":
+		"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+	".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+	".pptx":
+		"application/vnd.openxmlformats-officedocument.presentationml.presentation",
+	".odt": "application/vnd.oasis.opendocument.text",
+	".ods": "application/vnd.oasis.opendocument.spreadsheet",
+	".odp": "application/vnd.oasis.opendocument.presentation",
+	".zip": "application/zip",
+	".gz": "application/gzip",
+	".tar": "application/x-tar",
+};
+
+const ZIP_BASED_TYPES = new Set(
+	[".docx", ".xlsx", ".pptx", ".odt", ".ods", ".odp"].map(
+		(extension) => EXTENSION_TYPES[extension],
+	),
+);
+
+export function mimeTypeFromExtension(filePath: string): string | undefined {
+	return EXTENSION_TYPES[path.extname(filePath).toLowerCase()];
+}
+
+// Detect a MIME type from a file's leading bytes, falling back to its
+// extension for formats without a signature (most text formats)
+export function detectMimeType(header: Uint8Array, filePath?: string): string {
+	const byExtension = filePath ? mimeTypeFromExtension(filePath) : undefined;
+	for (const signature of SIGNATURES) {
+		const offset = signature.offset ?? 0;
+		if (header.length < offset + signature.bytes.length) continue;
+		const matches = signature.bytes.every(
+			(byte, i) => byte === null || header[offset + i] === byte,
+		);
+		if (!matches || (signature.check && !signature.check(header))) continue;
+		// Office documents are zip files, told apart by their extension
+		if (
+			signature.mimeType === "application/zip" &&
+			byExtension &&
+			ZIP_BASED_TYPES.has(byExtension)
+		) {
+			return byExtension;
+		}
+		return signature.mimeType;
+	}
+
+	if (byExtension && !SIGNATURES.some((s) => s.mimeType === byExtension)) {
+		return byExtension;
+	}
+	return header.includes(0) ? "application/octet-stream" : "text/plain";
+}
+
+export async function readFileHeader(
+	filePath: string,
+	length = MIME_HEADER_LENGTH,
+): Promise<Buffer> {
+	const handle = await open(filePath, "r");
+	try {
+		const { buffer, bytesRead } = await handle.read(
+			Buffer.alloc(length),
+			0,
+			length,
+			0,
+		);
+		return buffer.subarray(0, bytesRead);
+	} finally {
+		await handle.close();
+	}
+}
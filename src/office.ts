@@ -0,0 +1,735 @@
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { XMLParser } from "fast-xml-parser";
+import { unzipSync } from "fflate";
+import { parsePageRange } from "./pdf";
+
+// Word, Excel and PowerPoint files (OOXML) and their OpenDocument
+// counterparts are zip files of XML parts, so their text is extracted here
+// without any external service.
+export const OFFICE_MIME_TYPES: Record<string, OfficeFormat> = {
+	"application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+		"docx",
+	"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+	"application/vnd.openxmlformats-officedocument.presentationml.presentation":
+		"pptx",
+	"application/vnd.oasis.opendocument.text": "odt",
+	"application/vnd.oasis.opendocument.spreadsheet": "ods",
+	"application/vnd.oasis.opendocument.presentation": "odp",
+};
+
+export type OfficeFormat = "docx" | "xlsx" | "pptx" | "odt" | "ods" | "odp";
+
+export interface Sheet {
+	name: string;
+	rows: string[][];
+}
+
+export interface Slide {
+	text: string;
+	notes: string;
+}
+
+interface DocumentProperties {
+	title?: string;
+	author?: string;
+}
+
+export type OfficeDocument = DocumentProperties &
+	(
+		| { kind: "document"; blocks: string[] }
+		| { kind: "spreadsheet"; sheets: Sheet[] }
+		| { kind: "presentation"; slides: Slide[] }
+	);
+
+export type TableFormat = "markdown" | "csv";
+
+export function isOfficeMimeType(mimeType: string): boolean {
+	return mimeType in OFFICE_MIME_TYPES;
+}
+
+// Parts are decompressed into memory, so a small file claiming to unpack
+// into something huge is refused
+const MAX_UNPACKED_SIZE = 256 * 1024 * 1024;
+// Sheets often declare far more columns and rows than they use; cells
+// repeated past these limits are dropped
+const MAX_COLUMNS = 1024;
+const MAX_REPEATED_ROWS = 1000;
+// A run of spaces (text:s) is written as one element with a count
+const MAX_REPEATED_SPACES = 100;
+const MAX_CACHED_DOCUMENTS = 16;
+
+// XML, simplified: namespace prefixes are dropped from element names but
+// kept on attributes, where OOXML uses both id and r:id on one element
+interface XmlElement {
+	name: string;
+	attributes: Record<string, string>;
+	children: XmlNode[];
+}
+
+type XmlNode = XmlElement | string;
+
+const parser = new XMLParser({
+	preserveOrder: true,
+	ignoreAttributes: false,
+	attributeNamePrefix: "",
+	trimValues: false,
+	parseTagValue: false,
+	parseAttributeValue: false,
+	// Also decodes numeric character references such as &#233;
+	htmlEntities: true,
+});
+
+type ParsedNode = Record<string, unknown> & {
+	":@"?: Record<string, string>;
+};
+
+function toNodes(parsed: ParsedNode[]): XmlNode[] {
+	const nodes: XmlNode[] = [];
+	for (const node of parsed) {
+		for (const [key, value] of Object.entries(node)) {
+			if (key === ":@" || key.startsWith("?")) continue;
+			if (key === "#text") {
+				nodes.push(String(value));
+				continue;
+			}
+			nodes.push({
+				name: key.slice(key.indexOf(":") + 1),
+				attributes: node[":@"] ?? {},
+				children: toNodes(value as ParsedNode[]),
+			});
+		}
+	}
+	return nodes;
+}
+
+function parseXml(xml: string | undefined): XmlElement | undefined {
+	if (xml === undefined) return undefined;
+	return toNodes(parser.parse(xml)).find(
+		(node): node is XmlElement => typeof node !== "string",
+	);
+}
+
+function elements(element: XmlElement | undefined, name?: string) {
+	return (element?.children ?? []).filter(
+		(node): node is XmlElement =>
+			typeof node !== "string" && (name === undefined || node.name === name),
+	);
+}
+
+function child(element: XmlElement | undefined, name: string) {
+	return elements(element, name)[0];
+}
+
+function descendants(element: XmlElement | undefined, name: string) {
+	const found: XmlElement[] = [];
+	for (const node of elements(element)) {
+		if (node.name === name) found.push(node);
+		found.push(...descendants(node, name));
+	}
+	return found;
+}
+
+// In OOXML text only appears in t elements; everything else is markup
+function ooxmlText(node: XmlNode): string {
+	if (typeof node === "string") return "";
+	switch (node.name) {
+		case "t":
+			return node.children.filter((text) => typeof text === "string").join("");
+		case "tab":
+			return "\t";
+		case "br":
+		case "cr":
+			return "\n";
+		// Field codes, deleted text and phonetic guides
+		case "instrText":
+		case "delText":
+		case "rPh":
+			return "";
+		default:
+			return node.children.map(ooxmlText).join("");
+	}
+}
+
+function odfText(node: XmlNode): string {
+	if (typeof node === "string") return node;
+	switch (node.name) {
+		case "tab":
+			return "\t";
+		case "line-break":
+			return "\n";
+		case "s": {
+			// The count comes from the file, so it may be anything
+			const count = Math.trunc(Number(node.attributes["text:c"] ?? 1));
+			return " ".repeat(
+				Number.isFinite(count)
+					? Math.min(Math.max(count, 1), MAX_REPEATED_SPACES)
+					: 1,
+			);
+		}
+		// Comments and footnote bodies would interrupt the sentence
+		case "annotation":
+		case "note":
+			return "";
+		default:
+			return node.children.map(odfText).join("");
+	}
+}
+
+type Parts = Map<string, string>;
+
+function unpack(buffer: Uint8Array): Parts {
+	let unpacked = 0;
+	const files = unzipSync(buffer, {
+		filter: (file) => {
+			if (!/(\.xml|\.rels|^mimetype)$/.test(file.name)) return false;
+			unpacked += file.originalSize;
+			if (unpacked > MAX_UNPACKED_SIZE) {
+				throw new Error(
+					`Document unpacks to more than ${MAX_UNPACKED_SIZE} bytes`,
+				);
+			}
+			return true;
+		},
+	});
+	const decoder = new TextDecoder();
+	return new Map(
+		Object.entries(files).map(([name, data]) => [name, decoder.decode(data)]),
+	);
+}
+
+// Targets of a part's relationships by id, as part names
+function relationships(
+	parts: Parts,
+	partName: string,
+): Map<string, { target: string; type: string }> {
+	const dir = path.posix.dirname(partName);
+	const rels = parseXml(
+		parts.get(
+			path.posix.join(dir, "_rels", `${path.posix.basename(partName)}.rels`),
+		),
+	);
+	return new Map(
+		elements(rels, "Relationship").map((rel) => {
+			const target = rel.attributes.Target ?? "";
+			return [
+				rel.attributes.Id,
+				{
+					target: target.startsWith("/")
+						? target.slice(1)
+						: path.posix.join(dir, target),
+					type: rel.attributes.Type ?? "",
+				},
+			];
+		}),
+	);
+}
+
+function ooxmlProperties(parts: Parts): DocumentProperties {
+	const core = parseXml(parts.get("docProps/core.xml"));
+	const field = (name: string) =>
+		ooxmlFieldText(child(core, name)) || undefined;
+	return { title: field("title"), author: field("creator") };
+}
+
+function ooxmlFieldText(element: XmlElement | undefined): string {
+	return (element?.children ?? [])
+		.filter((node) => typeof node === "string")
+		.join("")
+		.trim();
+}
+
+function odfProperties(parts: Parts): DocumentProperties {
+	const meta = child(parseXml(parts.get("meta.xml")), "meta");
+	const field = (name: string) =>
+		odfText(child(meta, name) ?? "").trim() || undefined;
+	return {
+		title: field("title"),
+		author: field("initial-creator") ?? field("creator"),
+	};
+}
+
+function headingLine(level: number, text: string): string {
+	return `${"#".repeat(Math.min(Math.max(level, 1), 6))} ${text}`;
+}
+
+// Word documents
+
+// Heading levels by paragraph style id, from the style names, which unlike
+// the ids are not translated
+function docxHeadingStyles(parts: Parts): Map<string, number> {
+	const levels = new Map<string, number>();
+	const styles = parseXml(parts.get("word/styles.xml"));
+	for (const style of elements(styles, "style")) {
+		const id = style.attributes["w:styleId"];
+		const name = child(style, "name")?.attributes["w:val"] ?? id ?? "";
+		const heading = /^heading\s*(\d)$/i.exec(name);
+		if (heading) levels.set(id, Number(heading[1]));
+		else if (/^title$/i.test(name)) levels.set(id, 1);
+	}
+	return levels;
+}
+
+function docxBlocks(
+	container: XmlElement,
+	headingStyles: Map<string, number>,
+): string[] {
+	const blocks: string[] = [];
+	for (const element of elements(container)) {
+		if (element.name === "p") {
+			const text = ooxmlText(element).trim();
+			if (!text) continue;
+			const properties = child(element, "pPr");
+			const style = child(properties, "pStyle")?.attributes["w:val"];
+			const level = style
+				? (headingStyles.get(style) ??
+					Number(/^Heading(\d)$/.exec(style)?.[1] ?? 0))
+				: 0;
+			if (level > 0) blocks.push(headingLine(level, text));
+			else if (child(properties, "numPr")) blocks.push(`- ${text}`);
+			else blocks.push(text);
+		} else if (element.name === "tbl") {
+			const rows = elements(element, "tr").map((row) =>
+				elements(row, "tc").map((cell) =>
+					elements(cell, "p")
+						.map((paragraph) => ooxmlText(paragraph).trim())
+						.filter(Boolean)
+						.join(" "),
+				),
+			);
+			if (rows.length > 0) blocks.push(formatTable(rows, "markdown"));
+		} else if (element.name === "sdt") {
+			blocks.push(
+				...docxBlocks(child(element, "sdtContent") ?? element, headingStyles),
+			);
+		}
+	}
+	return blocks;
+}
+
+function extractDocx(parts: Parts): OfficeDocument {
+	const document = parseXml(parts.get("word/document.xml"));
+	const body = child(document, "body");
+	return {
+		...ooxmlProperties(parts),
+		kind: "document",
+		blocks: body ? docxBlocks(body, docxHeadingStyles(parts)) : [],
+	};
+}
+
+// Excel workbooks
+
+// Built-in number formats that show dates and times
+const BUILTIN_DATE_FORMATS = new Set([
+	14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47,
+]);
+
+// Indexes of the cell styles that format numbers as dates
+function xlsxDateStyles(parts: Parts): Set<number> {
+	const styles = parseXml(parts.get("xl/styles.xml"));
+	const customDates = new Set(
+		descendants(child(styles, "numFmts"), "numFmt")
+			.filter((format) =>
+				// Quoted literals and colours aside, a date format has d, m, y or h
+				/[dmyh]/i.test(
+					(format.attributes.formatCode ?? "").replace(
+						/"[^"]*"|\[[^\]]*\]/g,
+						"",
+					),
+				),
+			)
+			.map((format) => Number(format.attributes.numFmtId)),
+	);
+	const dateStyles = new Set<number>();
+	elements(child(styles, "cellXfs"), "xf").forEach((format, index) => {
+		const id = Number(format.attributes.numFmtId ?? 0);
+		if (BUILTIN_DATE_FORMATS.has(id) || customDates.has(id)) {
+			dateStyles.add(index);
+		}
+	});
+	return dateStyles;
+}
+
+function formatSerialDate(serial: number, date1904: boolean): string {
+	const epoch = date1904 ? 24107 : 25569;
+	const iso = new Date(
+		Math.round((serial - epoch) * 86400) * 1000,
+	).toISOString();
+	if (Number.isInteger(serial)) return iso.slice(0, 10);
+	return `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+}
+
+function columnIndex(reference: string): number {
+	let index = 0;
+	for (const letter of /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? "") {
+		index = index * 26 + letter.charCodeAt(0) - 64;
+	}
+	return index - 1;
+}
+
+function extractXlsx(parts: Parts): OfficeDocument {
+	const workbook = parseXml(parts.get("xl/workbook.xml"));
+	const date1904 = ["1", "true"].includes(
+		child(workbook, "workbookPr")?.attributes.date1904 ?? "",
+	);
+	const rels = relationships(parts, "xl/workbook.xml");
+	const sharedStrings = elements(
+		parseXml(parts.get("xl/sharedStrings.xml")),
+		"si",
+	).map(ooxmlText);
+	const dateStyles = xlsxDateStyles(parts);
+
+	const sheets = descendants(child(workbook, "sheets"), "sheet").map(
+		(sheet): Sheet => {
+			const part = rels.get(sheet.attributes["r:id"])?.target;
+			const data = child(parseXml(part && parts.get(part)), "sheetData");
+			const rows: string[][] = [];
+			for (const row of elements(data, "row")) {
+				const cells: string[] = [];
+				for (const cell of elements(row, "c")) {
+					const reference = cell.attributes.r;
+					const index = reference ? columnIndex(reference) : cells.length;
+					if (index < 0 || index >= MAX_COLUMNS) continue;
+					const value = ooxmlFieldText(child(cell, "v"));
+					let text: string;
+					switch (cell.attributes.t) {
+						case "s":
+							text = sharedStrings[Number(value)] ?? "";
+							break;
+						case "inlineStr":
+							text = ooxmlText(child(cell, "is") ?? "");
+							break;
+						case "b":
+							text = value === "1" ? "TRUE" : "FALSE";
+							break;
+						default:
+							text =
+								value !== "" &&
+								dateStyles.has(Number(cell.attributes.s)) &&
+								!Number.isNaN(Number(value))
+									? formatSerialDate(Number(value), date1904)
+									: value;
+					}
+					while (cells.length < index) cells.push("");
+					cells[index] = text;
+				}
+				if (cells.some(Boolean)) rows.push(cells);
+			}
+			return { name: sheet.attributes.name ?? "", rows };
+		},
+	);
+	return { ...ooxmlProperties(parts), kind: "spreadsheet", sheets };
+}
+
+// PowerPoint presentations
+
+// Slide numbers, dates, headers and footers repeat on every notes page
+const NOTES_PLACEHOLDERS = new Set(["sldNum", "sldImg", "dt", "hdr", "ftr"]);
+
+function paragraphsText(element: XmlElement | undefined): string {
+	return descendants(element, "p")
+		.map((paragraph) => ooxmlText(paragraph).trim())
+		.filter(Boolean)
+		.join("\n");
+}
+
+function extractPptx(parts: Parts): OfficeDocument {
+	const presentation = parseXml(parts.get("ppt/presentation.xml"));
+	const rels = relationships(parts, "ppt/presentation.xml");
+	const slides = descendants(child(presentation, "sldIdLst"), "sldId").map(
+		(slideId): Slide => {
+			const part = rels.get(slideId.attributes["r:id"])?.target;
+			if (!part) return { text: "", notes: "" };
+			const notesPart = [...relationships(parts, part).values()].find((rel) =>
+				rel.type.endsWith("/notesSlide"),
+			)?.target;
+			const notesShapes = descendants(
+				parseXml(notesPart && parts.get(notesPart)),
+				"sp",
+			).filter(
+				(shape) =>
+					!NOTES_PLACEHOLDERS.has(
+						descendants(shape, "ph")[0]?.attributes.type ?? "",
+					),
+			);
+			return {
+				text: paragraphsText(parseXml(parts.get(part))),
+				notes: notesShapes.map(paragraphsText).filter(Boolean).join("\n"),
+			};
+		},
+	);
+	return { ...ooxmlProperties(parts), kind: "presentation", slides };
+}
+
+// OpenDocument
+
+function odfBlocks(container: XmlElement, listDepth = 0): string[] {
+	const blocks: string[] = [];
+	for (const element of elements(container)) {
+		switch (element.name) {
+			case "h": {
+				const text = odfText(element).trim();
+				const level = Number(element.attributes["text:outline-level"] ?? 1);
+				if (text) blocks.push(headingLine(level, text));
+				break;
+			}
+			case "p": {
+				const text = odfText(element).trim();
+				if (!text) break;
+				blocks.push(
+					listDepth > 0 ? `${"  ".repeat(listDepth - 1)}- ${text}` : text,
+				);
+				break;
+			}
+			case "list":
+				for (const item of elements(element, "list-item")) {
+					blocks.push(...odfBlocks(item, listDepth + 1));
+				}
+				break;
+			case "table": {
+				const rows = odfTableRows(element);
+				if (rows.length > 0) blocks.push(formatTable(rows, "markdown"));
+				break;
+			}
+			case "section":
+				blocks.push(...odfBlocks(element, listDepth));
+				break;
+		}
+	}
+	return blocks;
+}
+
+// Rows of a table, expanding repeated rows and cells up to the limits
+function odfTableRows(table: XmlElement): string[][] {
+	const rows: string[][] = [];
+	for (const row of descendants(table, "table-row")) {
+		const cells: string[] = [];
+		for (const cell of elements(row)) {
+			if (cell.name !== "table-cell" && cell.name !== "covered-table-cell") {
+				continue;
+			}
+			const text = elements(cell, "p")
+				.map((paragraph) => odfText(paragraph).trim())
+				.join("\n");
+			const repeat = Number(
+				cell.attributes["table:number-columns-repeated"] ?? 1,
+			);
+			for (let i = 0; i < repeat && cells.length < MAX_COLUMNS; i++) {
+				cells.push(text);
+			}
+		}
+		while (cells.length > 0 && cells[cells.length - 1] === "") cells.pop();
+		if (cells.length === 0) continue;
+		const repeat = Number(row.attributes["table:number-rows-repeated"] ?? 1);
+		for (let i = 0; i < Math.min(repeat, MAX_REPEATED_ROWS); i++) {
+			rows.push(cells);
+		}
+	}
+	return rows;
+}
+
+function extractOdf(parts: Parts, format: OfficeFormat): OfficeDocument {
+	const body = child(parseXml(parts.get("content.xml")), "body");
+	const properties = odfProperties(parts);
+	if (format === "ods") {
+		const sheets = descendants(child(body, "spreadsheet"), "table").map(
+			(table): Sheet => ({
+				name: table.attributes["table:name"] ?? "",
+				rows: odfTableRows(table),
+			}),
+		);
+		return { ...properties, kind: "spreadsheet", sheets };
+	}
+	if (format === "odp") {
+		const slides = elements(child(body, "presentation"), "page").map(
+			(page): Slide => {
+				const text = (element: XmlElement | undefined) =>
+					descendants(element, "p")
+						.map((paragraph) => odfText(paragraph).trim())
+						.filter(Boolean)
+						.join("\n");
+				const content = {
+					...page,
+					children: elements(page).filter((node) => node.name !== "notes"),
+				};
+				return { text: text(content), notes: text(child(page, "notes")) };
+			},
+		);
+		return { ...properties, kind: "presentation", slides };
+	}
+	const text = child(body, "text");
+	return {
+		...properties,
+		kind: "document",
+		blocks: text ? odfBlocks(text) : [],
+	};
+}
+
+// ODF names its own type in a mimetype part; OOXML is told apart by the
+// parts it contains
+function detectFormat(parts: Parts): OfficeFormat | undefined {
+	const mimetype = parts.get("mimetype")?.trim();
+	if (mimetype) return OFFICE_MIME_TYPES[mimetype];
+	if (parts.has("word/document.xml")) return "docx";
+	if (parts.has("xl/workbook.xml")) return "xlsx";
+	if (parts.has("ppt/presentation.xml")) return "pptx";
+	return undefined;
+}
+
+// Parsed documents keyed by path, invalidated when the mtime or size changes.
+// Map insertion order doubles as LRU order.
+const cache = new Map<
+	string,
+	{ mtimeMs: number; size: number; document: OfficeDocument }
+>();
+
+export async function extractOffice(filePath: string): Promise<OfficeDocument> {
+	const stats = await stat(filePath);
+	const cached = cache.get(filePath);
+	if (
+		cached &&
+		cached.mtimeMs === stats.mtimeMs &&
+		cached.size === stats.size
+	) {
+		cache.delete(filePath);
+		cache.set(filePath, cached);
+		return cached.document;
+	}
+
+	let parts: Parts;
+	try {
+		parts = unpack(new Uint8Array(await readFile(filePath)));
+	} catch (error) {
+		throw new Error(
+			`Cannot open ${filePath} as an Office document: ${error instanceof Error ? error.message : error}`,
+		);
+	}
+	const format = detectFormat(parts);
+	if (!format) {
+		throw new Error(
+			`Not a Word, Excel, PowerPoint or OpenDocument file: ${filePath}`,
+		);
+	}
+	const document =
+		format === "docx"
+			? extractDocx(parts)
+			: format === "xlsx"
+				? extractXlsx(parts)
+				: format === "pptx"
+					? extractPptx(parts)
+					: extractOdf(parts, format);
+
+	cache.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, document });
+	if (cache.size > MAX_CACHED_DOCUMENTS) {
+		const oldest = cache.keys().next().value;
+		if (oldest !== undefined) cache.delete(oldest);
+	}
+	return document;
+}
+
+function csvField(value: string): string {
+	return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function markdownCell(value: string): string {
+	return value.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+// The first row is the Markdown header; short rows are padded
+export function formatTable(rows: string[][], format: TableFormat): string {
+	const width = Math.max(1, ...rows.map((row) => row.length));
+	if (format === "csv") {
+		return rows
+			.map((row) =>
+				Array.from({ length: width }, (_, i) => csvField(row[i] ?? "")).join(
+					",",
+				),
+			)
+			.join("\n");
+	}
+	const line = (row: string[]) =>
+		`| ${Array.from({ length: width }, (_, i) => markdownCell(row[i] ?? "")).join(" | ")} |`;
+	return [
+		line(rows[0] ?? []),
+		`| ${Array(width).fill("---").join(" | ")} |`,
+		...rows.slice(1).map(line),
+	].join("\n");
+}
+
+export interface OfficeReadOptions {
+	// Slides to show, as for PDF pages
+	pages?: string;
+	// A sheet name or 1-based number
+	sheet?: string;
+	tableFormat?: TableFormat;
+}
+
+function selectSheets(sheets: Sheet[], sheet: string | undefined): Sheet[] {
+	if (sheet === undefined) return sheets;
+	const match =
+		sheets.find((candidate) => candidate.name === sheet) ??
+		(/^\d+$/.test(sheet) ? sheets[Number(sheet) - 1] : undefined);
+	if (!match) {
+		throw new Error(
+			`Sheet not found: ${sheet}. Sheets: ${sheets.map((candidate) => candidate.name).join(", ")}`,
+		);
+	}
+	return [match];
+}
+
+export function formatOffice(
+	document: OfficeDocument,
+	options: OfficeReadOptions = {},
+): string {
+	if (options.sheet !== undefined && document.kind !== "spreadsheet") {
+		throw new Error("sheet only applies to spreadsheets");
+	}
+	if (options.pages !== undefined && document.kind !== "presentation") {
+		throw new Error("pages only applies to PDFs and presentations");
+	}
+	const header = [
+		`title: ${document.title ?? "(none)"}`,
+		`author: ${document.author ?? "(none)"}`,
+	];
+
+	switch (document.kind) {
+		case "document":
+			return [header.join("\n"), ...document.blocks].join("\n\n");
+
+		case "spreadsheet": {
+			header.push(
+				`sheets: ${document.sheets.map((sheet) => sheet.name).join(", ")}`,
+			);
+			const body = selectSheets(document.sheets, options.sheet).map((sheet) => {
+				const width = Math.max(0, ...sheet.rows.map((row) => row.length));
+				const table =
+					sheet.rows.length > 0
+						? formatTable(sheet.rows, options.tableFormat ?? "markdown")
+						: "(empty)";
+				return `--- Sheet ${sheet.name} (${sheet.rows.length} rows, ${width} columns) ---\n${table}`;
+			});
+			return [header.join("\n"), ...body].join("\n\n");
+		}
+
+		case "presentation": {
+			const slideCount = document.slides.length;
+			const selected = options.pages
+				? parsePageRange(options.pages, slideCount)
+				: Array.from({ length: slideCount }, (_, i) => i + 1);
+			header.push(`slides: ${slideCount}`);
+			if (options.pages) {
+				header.push(
+					selected.length > 0
+						? `showing slides: ${options.pages}`
+						: `showing slides: ${options.pages} (no slides in range)`,
+				);
+			}
+			const body = selected.map((number) => {
+				const slide = document.slides[number - 1];
+				const notes = slide.notes ? `\n\nNotes:\n${slide.notes}` : "";
+				return `--- Slide ${number} ---\n${slide.text}${notes}`;
+			});
+			return [header.join("\n"), ...body].join("\n\n");
+		}
+	}
+}
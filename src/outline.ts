@@ -0,0 +1,400 @@
+import path from "node:path";
+import type TS from "typescript";
+
+const SCRIPT_KINDS: Record<string, keyof typeof TS.ScriptKind> = {
+	".ts": "TS",
+	".mts": "TS",
+	".cts": "TS",
+	".tsx": "TSX",
+	".js": "JS",
+	".mjs": "JS",
+	".cjs": "JS",
+	".jsx": "JSX",
+};
+
+// The typescript package is large and optional, so it is only loaded once a
+// file is parsed. Everything else here works on parsed files and can use it.
+let ts: typeof TS;
+let loading: Promise<typeof TS> | undefined;
+
+function loadTypeScript(): Promise<typeof TS> {
+	if (!loading) {
+		loading = import("typescript").then(
+			(module) => {
+				ts = module.default;
+				return ts;
+			},
+			() => {
+				loading = undefined;
+				throw new Error(
+					"Code navigation needs the typescript package; install it alongside semantic-fs",
+				);
+			},
+		);
+	}
+	return loading;
+}
+
+export function isSourceFile(filePath: string): boolean {
+	return path.extname(filePath).toLowerCase() in SCRIPT_KINDS;
+}
+
+export async function parseSource(
+	filePath: string,
+	text: string,
+): Promise<TS.SourceFile> {
+	const kind = SCRIPT_KINDS[path.extname(filePath).toLowerCase()];
+	if (kind === undefined) {
+		throw new Error(`Not a TypeScript or JavaScript file: ${filePath}`);
+	}
+	await loadTypeScript();
+	return ts.createSourceFile(
+		filePath,
+		text,
+		ts.ScriptTarget.Latest,
+		true,
+		ts.ScriptKind[kind],
+	);
+}
+
+export interface Declaration {
+	name: string;
+	// Dotted path through enclosing classes, interfaces and namespaces
+	qualifiedName: string;
+	kind: string;
+	exported: boolean;
+	// 1-based and inclusive; the start includes any leading JSDoc
+	startLine: number;
+	endLine: number;
+	children: Declaration[];
+}
+
+function isExported(node: TS.Node): boolean {
+	return (
+		ts.canHaveModifiers(node) &&
+		(ts.getModifiers(node) ?? []).some(
+			(modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword,
+		)
+	);
+}
+
+function nameOf(node: TS.NamedDeclaration, sourceFile: TS.SourceFile): string {
+	return node.name ? node.name.getText(sourceFile) : "default";
+}
+
+function variableKind(declaration: TS.VariableDeclaration): string {
+	const initializer = declaration.initializer;
+	if (
+		initializer &&
+		(ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))
+	) {
+		return "function";
+	}
+	if (initializer && ts.isClassExpression(initializer)) return "class";
+	return "variable";
+}
+
+function memberKind(member: TS.Node): string | undefined {
+	if (ts.isMethodDeclaration(member) || ts.isMethodSignature(member)) {
+		return "method";
+	}
+	if (ts.isPropertyDeclaration(member) || ts.isPropertySignature(member)) {
+		return "property";
+	}
+	if (ts.isConstructorDeclaration(member)) return "constructor";
+	if (ts.isGetAccessorDeclaration(member)) return "getter";
+	if (ts.isSetAccessorDeclaration(member)) return "setter";
+	return undefined;
+}
+
+// The declarations of a file (functions, classes and their members,
+// interfaces, types, enums, variables, namespaces and exports) in source order
+// Overload signatures and their implementation are one declaration
+function pushMerged(result: Declaration[], declaration: Declaration) {
+	const previous = result[result.length - 1];
+	if (
+		previous &&
+		(declaration.kind === "function" || declaration.kind === "method") &&
+		previous.kind === declaration.kind &&
+		previous.qualifiedName === declaration.qualifiedName
+	) {
+		previous.endLine = declaration.endLine;
+		previous.exported ||= declaration.exported;
+		return;
+	}
+	result.push(declaration);
+}
+
+export function getOutline(sourceFile: TS.SourceFile): Declaration[] {
+	const lineOf = (position: number) =>
+		sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+	function declare(
+		node: TS.Node,
+		name: string,
+		kind: string,
+		parent: string | undefined,
+		exported = isExported(node),
+		range: TS.Node = node,
+	): Declaration {
+		return {
+			name,
+			qualifiedName: parent ? `${parent}.${name}` : name,
+			kind,
+			exported,
+			startLine: lineOf(range.getStart(sourceFile, true)),
+			endLine: lineOf(range.getEnd()),
+			children: [],
+		};
+	}
+
+	function members(
+		nodes: TS.NodeArray<TS.Node>,
+		parent: string,
+	): Declaration[] {
+		const result: Declaration[] = [];
+		for (const member of nodes) {
+			const kind = memberKind(member);
+			if (!kind) continue;
+			const name =
+				kind === "constructor"
+					? "constructor"
+					: nameOf(member as TS.NamedDeclaration, sourceFile);
+			pushMerged(result, declare(member, name, kind, parent, false));
+		}
+		return result;
+	}
+
+	function statements(
+		nodes: TS.NodeArray<TS.Statement>,
+		parent?: string,
+	): Declaration[] {
+		const result: Declaration[] = [];
+		for (const node of nodes) {
+			if (ts.isFunctionDeclaration(node)) {
+				pushMerged(
+					result,
+					declare(node, nameOf(node, sourceFile), "function", parent),
+				);
+			} else if (ts.isClassDeclaration(node)) {
+				const declaration = declare(
+					node,
+					nameOf(node, sourceFile),
+					"class",
+					parent,
+				);
+				declaration.children = members(node.members, declaration.qualifiedName);
+				result.push(declaration);
+			} else if (ts.isInterfaceDeclaration(node)) {
+				const declaration = declare(node, node.name.text, "interface", parent);
+				declaration.children = members(node.members, declaration.qualifiedName);
+				result.push(declaration);
+			} else if (ts.isTypeAliasDeclaration(node)) {
+				result.push(declare(node, node.name.text, "type", parent));
+			} else if (ts.isEnumDeclaration(node)) {
+				result.push(declare(node, node.name.text, "enum", parent));
+			} else if (ts.isVariableStatement(node)) {
+				for (const declaration of node.declarationList.declarations) {
+					if (!ts.isIdentifier(declaration.name)) continue;
+					// A lone declaration spans its statement, keeping `export
+					// const` and its JSDoc in range
+					const range =
+						node.declarationList.declarations.length === 1 ? node : declaration;
+					result.push(
+						declare(
+							declaration,
+							declaration.name.text,
+							variableKind(declaration),
+							parent,
+							isExported(node),
+							range,
+						),
+					);
+				}
+			} else if (ts.isModuleDeclaration(node)) {
+				const declaration = declare(
+					node,
+					node.name.getText(sourceFile),
+					"namespace",
+					parent,
+				);
+				if (node.body && ts.isModuleBlock(node.body)) {
+					declaration.children = statements(
+						node.body.statements,
+						declaration.qualifiedName,
+					);
+				}
+				result.push(declaration);
+			} else if (ts.isExportAssignment(node)) {
+				result.push(declare(node, "default", "export", parent, true));
+			} else if (ts.isExportDeclaration(node)) {
+				const from = node.moduleSpecifier?.getText(sourceFile);
+				const clause = node.exportClause;
+				if (!clause) {
+					result.push(declare(node, `* from ${from}`, "export", parent, true));
+				} else if (ts.isNamespaceExport(clause)) {
+					result.push(
+						declare(
+							node,
+							`* as ${clause.name.text} from ${from}`,
+							"export",
+							parent,
+							true,
+						),
+					);
+				} else if (from) {
+					for (const element of clause.elements) {
+						result.push(
+							declare(
+								element,
+								`${element.name.text} from ${from}`,
+								"export",
+								parent,
+								true,
+								node,
+							),
+						);
+					}
+				} else {
+					// `export { a, b }` exports local declarations
+					const names = new Set(
+						clause.elements.map(
+							(element) => (element.propertyName ?? element.name).text,
+						),
+					);
+					for (const declaration of result) {
+						if (names.has(declaration.name)) declaration.exported = true;
+					}
+				}
+			}
+		}
+		return result;
+	}
+
+	return statements(sourceFile.statements);
+}
+
+export function flattenOutline(outline: Declaration[]): Declaration[] {
+	return outline.flatMap((declaration) => [
+		declaration,
+		...flattenOutline(declaration.children),
+	]);
+}
+
+// Declarations matching a plain name or a qualified one such as Class.method
+export function findDeclarations(
+	outline: Declaration[],
+	symbol: string,
+): Declaration[] {
+	return flattenOutline(outline).filter(
+		(declaration) =>
+			declaration.kind !== "export" &&
+			(declaration.name === symbol || declaration.qualifiedName === symbol),
+	);
+}
+
+// The line range of one symbol. Overloads share a qualified name and are
+// returned together; distinct declarations with the same name are ambiguous.
+export function locateSymbol(
+	outline: Declaration[],
+	symbol: string,
+): { startLine: number; endLine: number; declaration: Declaration } {
+	const matches = findDeclarations(outline, symbol);
+	if (matches.length === 0) {
+		const available = new Set(
+			outline
+				.filter((declaration) => declaration.kind !== "export")
+				.map((declaration) => declaration.name),
+		);
+		throw new Error(
+			`Symbol not found: ${symbol}. Top-level declarations: ${[...available].join(", ") || "none"}`,
+		);
+	}
+	const qualifiedNames = [...new Set(matches.map((m) => m.qualifiedName))];
+	if (qualifiedNames.length > 1) {
+		throw new Error(
+			`Symbol ${symbol} is ambiguous: ${matches
+				.map((m) => `${m.qualifiedName} (line ${m.startLine})`)
+				.join(", ")}. Use a qualified name such as ${qualifiedNames[0]}`,
+		);
+	}
+	return {
+		startLine: Math.min(...matches.map((m) => m.startLine)),
+		endLine: Math.max(...matches.map((m) => m.endLine)),
+		declaration: matches[0],
+	};
+}
+
+export function formatOutline(outline: Declaration[], indent = ""): string {
+	return outline
+		.map((declaration) => {
+			const exported =
+				declaration.exported && declaration.kind !== "export" ? "export " : "";
+			const lines =
+				declaration.startLine === declaration.endLine
+					? `line ${declaration.startLine}`
+					: `lines ${declaration.startLine}-${declaration.endLine}`;
+			const line = `${indent}${exported}${declaration.kind} ${declaration.name} (${lines})`;
+			const children = formatOutline(declaration.children, `${indent}  `);
+			return children ? `${line}\n${children}` : line;
+		})
+		.join("\n");
+}
+
+let declarationKinds: Set<TS.SyntaxKind> | undefined;
+
+// Built on first use, once typescript has been loaded
+function getDeclarationKinds(): Set<TS.SyntaxKind> {
+	declarationKinds ??= new Set([
+		ts.SyntaxKind.FunctionDeclaration,
+		ts.SyntaxKind.ClassDeclaration,
+		ts.SyntaxKind.InterfaceDeclaration,
+		ts.SyntaxKind.TypeAliasDeclaration,
+		ts.SyntaxKind.EnumDeclaration,
+		ts.SyntaxKind.ModuleDeclaration,
+		ts.SyntaxKind.VariableDeclaration,
+		ts.SyntaxKind.MethodDeclaration,
+		ts.SyntaxKind.MethodSignature,
+		ts.SyntaxKind.PropertyDeclaration,
+		ts.SyntaxKind.PropertySignature,
+		ts.SyntaxKind.GetAccessor,
+		ts.SyntaxKind.SetAccessor,
+	]);
+	return declarationKinds;
+}
+
+export interface Reference {
+	line: number;
+	column: number;
+	text: string;
+}
+
+// Every use of an identifier other than the names of declarations. This is a
+// syntactic match, so unrelated symbols that share the name are included.
+export function findReferences(
+	sourceFile: TS.SourceFile,
+	name: string,
+): Reference[] {
+	const references: Reference[] = [];
+	const lines = sourceFile.text.split("\n");
+
+	function visit(node: TS.Node) {
+		if (ts.isIdentifier(node) && node.text === name) {
+			const parent = node.parent as TS.NamedDeclaration;
+			if (!(getDeclarationKinds().has(parent.kind) && parent.name === node)) {
+				const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+					node.getStart(sourceFile),
+				);
+				references.push({
+					line: line + 1,
+					column: character + 1,
+					text: lines[line].trim(),
+				});
+			}
+		}
+		ts.forEachChild(node, visit);
+	}
+
+	visit(sourceFile);
+	return references;
+}
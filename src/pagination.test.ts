@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import {
+	type PageArgs,
+	decodeCursor,
+	describePage,
+	encodeCursor,
+	paginate,
+} from "./pagination";
+
+const items = Array.from({ length: 25 }, (_, i) => `item${i}`);
+
+// Tool arguments as a handler passes them; the cursor is bound to all but
+// cursor and limit
+function query<T extends PageArgs>(args: T): T & { path: string } {
+	return { path: "/data", ...args };
+}
+
+describe("paginate", () => {
+	test("returns the first page without a cursor", () => {
+		const page = paginate(items, query({ limit: 10 }));
+		expect(page.items).toEqual(items.slice(0, 10));
+		expect(page.offset).toBe(0);
+		expect(page.total).toBe(25);
+		expect(page.nextCursor).toBeDefined();
+	});
+
+	test("walks every item exactly once, ending without a cursor", () => {
+		const seen: string[] = [];
+		let cursor: string | undefined;
+		do {
+			const page = paginate(items, query({ limit: 10, cursor }));
+			seen.push(...page.items);
+			cursor = page.nextCursor;
+		} while (cursor);
+		expect(seen).toEqual(items);
+	});
+
+	test("lets the page size change between pages", () => {
+		const first = paginate(items, query({ limit: 5 }));
+		const second = paginate(
+			items,
+			query({ limit: 15, cursor: first.nextCursor }),
+		);
+		expect(second.items).toEqual(items.slice(5, 20));
+	});
+
+	test("has no next cursor when everything fits", () => {
+		expect(paginate(items, query({ limit: 25 })).nextCursor).toBeUndefined();
+	});
+});
+
+describe("decodeCursor", () => {
+	test("reads back the encoded offset", () => {
+		const args = query({ limit: 10 });
+		expect(
+			decodeCursor({ ...args, cursor: encodeCursor(40, args), limit: 7 }),
+		).toBe(40);
+	});
+
+	test("rejects a cursor from a different query", () => {
+		const cursor = encodeCursor(10, query({ limit: 10 }));
+		const other = { ...query({ cursor }), path: "/other" };
+		expect(() => decodeCursor(other)).toThrow("different query");
+	});
+
+	test("rejects cursors that are not ours", () => {
+		for (const cursor of [
+			"garbage",
+			Buffer.from(JSON.stringify({ offset: -1 })).toString("base64url"),
+			Buffer.from(JSON.stringify({ offset: 1.5 })).toString("base64url"),
+		]) {
+			expect(() => decodeCursor({ cursor })).toThrow("Invalid cursor");
+		}
+	});
+});
+
+describe("describePage", () => {
+	test("names the range shown and the next cursor", () => {
+		const page = paginate(items, query({ limit: 10 }));
+		expect(describePage(page, "entries")).toBe(
+			`[Showing entries 1-10 of 25; pass cursor "${page.nextCursor}" for the next page]`,
+		);
+	});
+});
@@ -0,0 +1,79 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+
+export const CursorSchema = z
+	.string()
+	.optional()
+	.describe("nextCursor from the previous page; omit for the first page");
+
+export interface PageArgs {
+	cursor?: string;
+	limit?: number;
+}
+
+// A cursor holds the offset of the next item and a fingerprint of the other
+// arguments, so it cannot be replayed against a different query. The page
+// size may change from one page to the next.
+interface CursorData {
+	offset: number;
+	query: string;
+}
+
+function fingerprint(args: PageArgs): string {
+	return createHash("sha1")
+		.update(JSON.stringify({ ...args, cursor: undefined, limit: undefined }))
+		.digest("hex")
+		.slice(0, 12);
+}
+
+export function encodeCursor(offset: number, args: PageArgs): string {
+	const data: CursorData = { offset, query: fingerprint(args) };
+	return Buffer.from(JSON.stringify(data)).toString("base64url");
+}
+
+export function decodeCursor(args: PageArgs): number {
+	if (args.cursor === undefined) return 0;
+	let data: Partial<CursorData> = {};
+	try {
+		data = JSON.parse(Buffer.from(args.cursor, "base64url").toString("utf-8"));
+	} catch {}
+	if (
+		typeof data.offset !== "number" ||
+		!Number.isInteger(data.offset) ||
+		data.offset < 0
+	) {
+		throw new Error(`Invalid cursor: ${args.cursor}`);
+	}
+	if (data.query !== fingerprint(args)) {
+		throw new Error(
+			"Cursor belongs to a different query; repeat the same arguments or start again without a cursor",
+		);
+	}
+	return data.offset;
+}
+
+export interface Page<T> {
+	items: T[];
+	offset: number;
+	total: number;
+	nextCursor?: string;
+}
+
+// One page of a complete, deterministically ordered result list
+export function paginate<T>(
+	items: T[],
+	args: PageArgs & { limit: number },
+): Page<T> {
+	const offset = decodeCursor(args);
+	const end = offset + args.limit;
+	return {
+		items: items.slice(offset, end),
+		offset,
+		total: items.length,
+		nextCursor: end < items.length ? encodeCursor(end, args) : undefined,
+	};
+}
+
+export function describePage(page: Page<unknown>, noun: string): string {
+	return `[Showing ${noun} ${page.offset + 1}-${page.offset + page.items.length} of ${page.total}; pass cursor "${page.nextCursor}" for the next page]`;
+}
@@ -0,0 +1,174 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, realpath, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { encodeText } from "./encoding";
+import type { AllowedDirectory } from "./fs";
+import {
+	ApplyPatchArgsSchema,
+	applyHunks,
+	parseFilePatches,
+	planPatch,
+} from "./patch";
+
+let base: string;
+let allowed: AllowedDirectory[];
+
+beforeAll(async () => {
+	base = await realpath(await mkdtemp(path.join(tmpdir(), "patch-")));
+	allowed = [{ path: base, mode: "write", deny: [] }];
+});
+
+afterAll(async () => {
+	await rm(base, { recursive: true, force: true });
+});
+
+function hunksOf(patch: string) {
+	return parseFilePatches(patch)[0].hunks;
+}
+
+async function plan(patch: string) {
+	return planPatch(
+		parseFilePatches(patch),
+		ApplyPatchArgsSchema.parse({ patch, baseDir: base }),
+		allowed,
+	);
+}
+
+describe("applyHunks", () => {
+	const original = "one\ntwo\nthree\nfour\nfive\n";
+
+	test("applies a hunk where it says", () => {
+		const { content, results } = applyHunks(
+			original,
+			hunksOf("--- a\n+++ a\n@@ -2,3 +2,3 @@\n two\n-three\n+THREE\n four\n"),
+			0,
+		);
+		expect(content).toBe("one\ntwo\nTHREE\nfour\nfive\n");
+		expect(results).toEqual([
+			{
+				header: "@@ -2,3 +2,3 @@",
+				applied: true,
+				line: 2,
+				offset: 0,
+				fuzz: 0,
+			},
+		]);
+	});
+
+	test("finds a hunk that moved", () => {
+		const { content, results } = applyHunks(
+			`zero\n${original}`,
+			hunksOf("--- a\n+++ a\n@@ -2,3 +2,3 @@\n two\n-three\n+THREE\n four\n"),
+			0,
+		);
+		expect(content).toBe("zero\none\ntwo\nTHREE\nfour\nfive\n");
+		expect(results[0].offset).toBe(1);
+	});
+
+	test("ignores outer context lines up to the fuzz", () => {
+		const hunks = hunksOf(
+			"--- a\n+++ a\n@@ -2,3 +2,3 @@\n TWO\n-three\n+THREE\n four\n",
+		);
+		expect(applyHunks(original, hunks, 0).results[0].applied).toBe(false);
+		const { content, results } = applyHunks(original, hunks, 1);
+		expect(content).toBe("one\ntwo\nTHREE\nfour\nfive\n");
+		expect(results[0].fuzz).toBe(1);
+	});
+
+	test("keeps CRLF line endings", () => {
+		const { content } = applyHunks(
+			"a\r\nb\r\n",
+			hunksOf("--- a\n+++ a\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n"),
+			0,
+		);
+		expect(content).toBe("a\r\nc\r\n");
+	});
+
+	test("removes the final newline when the new side has the marker", () => {
+		const { content } = applyHunks(
+			"a\nb\n",
+			hunksOf(
+				"--- a\n+++ a\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n\\ No newline at end of file\n",
+			),
+			0,
+		);
+		expect(content).toBe("a\nc");
+	});
+
+	test("adds a final newline when only the old side has the marker", () => {
+		const { content } = applyHunks(
+			"a\nb",
+			hunksOf(
+				"--- a\n+++ a\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n",
+			),
+			0,
+		);
+		expect(content).toBe("a\nb\n");
+	});
+
+	test("keeps a missing final newline marked on both sides", () => {
+		const { content } = applyHunks(
+			"a\nb",
+			hunksOf(
+				"--- a\n+++ a\n@@ -1,2 +1,3 @@\n-a\n+x\n+y\n b\n\\ No newline at end of file\n",
+			),
+			0,
+		);
+		expect(content).toBe("x\ny\nb");
+	});
+});
+
+describe("planPatch", () => {
+	test("applies several sections for one file in turn", async () => {
+		await writeFile(path.join(base, "twice.txt"), "one\ntwo\nthree\n");
+		const { planned, state } = await plan(
+			"--- twice.txt\n+++ twice.txt\n@@ -1,2 +1,2 @@\n-one\n+ONE\n two\n" +
+				"--- twice.txt\n+++ twice.txt\n@@ -2,2 +2,2 @@\n two\n-three\n+THREE\n",
+		);
+		expect(planned.map((file) => file.error)).toEqual([undefined, undefined]);
+		expect(state.content.get(path.join(base, "twice.txt"))?.text).toBe(
+			"ONE\ntwo\nTHREE\n",
+		);
+		expect(state.onDisk.get(path.join(base, "twice.txt"))).toEqual(
+			Buffer.from("one\ntwo\nthree\n"),
+		);
+	});
+
+	test("modifies a file created earlier in the patch", async () => {
+		const { planned, state } = await plan(
+			"diff --git a/new.txt b/new.txt\nnew file mode 100644\n--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1 @@\n+first\n" +
+				"diff --git a/new.txt b/new.txt\n--- a/new.txt\n+++ b/new.txt\n@@ -1 +1,2 @@\n first\n+second\n",
+		);
+		expect(planned.map((file) => file.error)).toEqual([undefined, undefined]);
+		expect(state.content.get(path.join(base, "new.txt"))?.text).toBe(
+			"first\nsecond\n",
+		);
+	});
+
+	test("keeps the encoding and line endings of the file", async () => {
+		const original = encodeText("caf\u00e9\r\nna\u00efve\r\n", "windows-1252");
+		await writeFile(path.join(base, "latin1.txt"), original);
+		const { planned, state } = await plan(
+			"--- latin1.txt\n+++ latin1.txt\n@@ -1,2 +1,2 @@\n caf\u00e9\n-na\u00efve\n+r\u00e9sum\u00e9\n",
+		);
+		expect(planned[0].error).toBeUndefined();
+		const file = state.content.get(path.join(base, "latin1.txt"));
+		expect(file?.format).toEqual({
+			encoding: "windows-1252",
+			bom: false,
+			lineEnding: "\r\n",
+		});
+		expect(file?.text).toBe("caf\u00e9\r\nr\u00e9sum\u00e9\r\n");
+	});
+
+	test("rejects a section for a file renamed away earlier", async () => {
+		await writeFile(path.join(base, "old.txt"), "text\n");
+		const { planned } = await plan(
+			"diff --git a/old.txt b/moved.txt\nsimilarity index 100%\nrename from old.txt\nrename to moved.txt\n" +
+				"diff --git a/old.txt b/old.txt\n--- a/old.txt\n+++ b/old.txt\n@@ -1 +1 @@\n-text\n+changed\n",
+		);
+		expect(planned[0].error).toBeUndefined();
+		expect(planned[1].error).toContain("removed earlier in the patch");
+	});
+});
@@ -0,0 +1,516 @@
+import { rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { ToolSchema } from "@modelcontextprotocol/sdk/types.js";
+import { parsePatch } from "diff";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { type TextFile, detectLineEnding, encodeTextFile } from "./encoding";
+import {
+	type AllowedDirectory,
+	expandHome,
+	readTextFileOrThrow,
+	validatePath,
+	writeFilesAtomic,
+} from "./fs";
+import { getJournal, makeDirectories } from "./journal";
+
+const ToolInputSchema = ToolSchema.shape.inputSchema;
+type ToolInput = z.infer<typeof ToolInputSchema>;
+
+// Schema definitions
+export const ApplyPatchArgsSchema = z.object({
+	patch: z.string().describe("Unified diff, optionally in git format"),
+	baseDir: z
+		.string()
+		.optional()
+		.describe(
+			"Directory that relative paths in the patch are resolved against",
+		),
+	strip: z
+		.number()
+		.int()
+		.nonnegative()
+		.optional()
+		.describe(
+			"Leading path components to remove from file names, like patch -p; " +
+				"defaults to 1 for git patches (a/ and b/ prefixes) and 0 otherwise",
+		),
+	fuzz: z
+		.number()
+		.int()
+		.nonnegative()
+		.max(3)
+		.default(2)
+		.describe(
+			"How many context lines at the start and end of a hunk may be ignored when it does not match exactly",
+		),
+	dryRun: z
+		.boolean()
+		.default(false)
+		.describe("Check that every hunk applies without writing anything"),
+});
+
+interface Hunk {
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	lines: string[];
+}
+
+// One file's part of a patch; a missing path stands for /dev/null
+export interface FilePatch {
+	oldPath?: string;
+	newPath?: string;
+	// Both names refer to one file, as in diff -u x.orig x
+	sameFile?: boolean;
+	hunks: Hunk[];
+}
+
+export interface HunkResult {
+	header: string;
+	applied: boolean;
+	line?: number;
+	offset?: number;
+	fuzz?: number;
+}
+
+const NULL_PATH = "/dev/null";
+
+function hunkHeader(hunk: Hunk): string {
+	return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+function stripPath(
+	name: string | undefined,
+	strip: number,
+): string | undefined {
+	if (!name || name === NULL_PATH) return undefined;
+	// File names may be followed by a tab and a timestamp or label
+	const clean = name.split("\t")[0];
+	if (strip === 0) return clean;
+	const parts = clean.split("/");
+	if (parts.length <= strip) {
+		throw new Error(`Cannot strip ${strip} components from ${clean}`);
+	}
+	return parts.slice(strip).join("/");
+}
+
+// Split a patch into per-file parts. Git headers carry renames and pure
+// renames without hunks, which the diff package's parser does not report.
+export function parseFilePatches(patch: string, strip?: number): FilePatch[] {
+	const text = patch.replace(/\r\n/g, "\n");
+	const isGit = /^diff --git /m.test(text);
+	const stripCount = strip ?? (isGit ? 1 : 0);
+
+	if (!isGit) {
+		return parsePatch(text).map((file) => ({
+			oldPath: stripPath(file.oldFileName, stripCount),
+			newPath: stripPath(file.newFileName, stripCount),
+			sameFile: true,
+			hunks: file.hunks,
+		}));
+	}
+
+	const sections = text
+		.split(/^(?=diff --git )/m)
+		.filter((section) => section.startsWith("diff --git "));
+	return sections.map((section) => {
+		const header = section.match(/^diff --git (\S+) (\S+)/);
+		const renameFrom = section.match(/^rename from (.+)$/m)?.[1];
+		const renameTo = section.match(/^rename to (.+)$/m)?.[1];
+		const isNew = /^new file mode /m.test(section);
+		const isDeleted = /^deleted file mode /m.test(section);
+		const [parsed] = parsePatch(section);
+
+		let oldPath = stripPath(parsed?.oldFileName ?? header?.[1], stripCount);
+		let newPath = stripPath(parsed?.newFileName ?? header?.[2], stripCount);
+		// rename lines name the files without the a/ and b/ prefixes
+		if (renameFrom && renameTo) {
+			oldPath = renameFrom;
+			newPath = renameTo;
+		}
+		if (isNew) oldPath = undefined;
+		if (isDeleted) newPath = undefined;
+		return { oldPath, newPath, hunks: parsed?.hunks ?? [] };
+	});
+}
+
+function findHunk(
+	lines: string[],
+	expected: string[],
+	around: number,
+): number | undefined {
+	const last = lines.length - expected.length;
+	if (last < 0) return undefined;
+	const matchesAt = (start: number) =>
+		expected.every((line, i) => lines[start + i] === line);
+	// Search outwards from where the hunk says it belongs
+	const start = Math.min(Math.max(around, 0), last);
+	for (let distance = 0; distance <= last; distance++) {
+		if (start - distance >= 0 && matchesAt(start - distance)) {
+			return start - distance;
+		}
+		if (
+			distance > 0 &&
+			start + distance <= last &&
+			matchesAt(start + distance)
+		) {
+			return start + distance;
+		}
+		if (start - distance < 0 && start + distance > last) break;
+	}
+	return undefined;
+}
+
+// Apply hunks in order to a file's content. A hunk that does not match where
+// it says is searched for elsewhere in the file, then retried ignoring up to
+// `fuzz` context lines at each end.
+export function applyHunks(
+	content: string,
+	hunks: Hunk[],
+	fuzz: number,
+): { content: string; results: HunkResult[] } {
+	const eol = content.includes("\r\n") ? "\r\n" : "\n";
+	let endsWithNewline = content === "" || content.endsWith("\n");
+	const lines = content === "" ? [] : content.split(/\r?\n/);
+	if (endsWithNewline && lines.length > 0) lines.pop();
+
+	const results: HunkResult[] = [];
+	let delta = 0;
+	for (const hunk of hunks) {
+		// "\ No newline at end of file" follows the last line of the side (or
+		// sides, after a context line) that ends without one
+		const body = hunk.lines.filter((line) => !line.startsWith("\\"));
+		const unterminated = hunk.lines
+			.map((line, i) => (line.startsWith("\\") ? hunk.lines[i - 1]?.[0] : ""))
+			.filter(Boolean);
+		const oldSide = body.filter((l) => l[0] !== "+").map((l) => l.slice(1));
+		const newSide = body.filter((l) => l[0] !== "-").map((l) => l.slice(1));
+		const leadingContext = body.findIndex((l) => l[0] !== " ");
+		const trailingContext = [...body].reverse().findIndex((l) => l[0] !== " ");
+		const expectedAt = Math.max(hunk.oldStart - 1, 0) + delta;
+
+		let applied: HunkResult | undefined;
+		for (let level = 0; level <= fuzz && !applied; level++) {
+			const front = Math.min(level, Math.max(leadingContext, 0));
+			const back = Math.min(level, Math.max(trailingContext, 0));
+			if (level > 0 && front === 0 && back === 0) break;
+			const expected = oldSide.slice(front, oldSide.length - back);
+			const position = findHunk(lines, expected, expectedAt + front);
+			if (position === undefined) continue;
+
+			lines.splice(
+				position,
+				expected.length,
+				...newSide.slice(front, newSide.length - back),
+			);
+			delta += newSide.length - oldSide.length;
+			// Only a hunk at the end of the file carries markers, and then the
+			// new side decides whether the file ends with a newline
+			if (unterminated.length > 0) {
+				endsWithNewline = !unterminated.some((side) => side !== "-");
+			}
+			applied = {
+				header: hunkHeader(hunk),
+				applied: true,
+				line: position - front + 1,
+				offset: position - front - expectedAt,
+				fuzz: level,
+			};
+		}
+		results.push(applied ?? { header: hunkHeader(hunk), applied: false });
+	}
+
+	const joined = lines.join(eol);
+	return {
+		content: endsWithNewline && lines.length > 0 ? joined + eol : joined,
+		results,
+	};
+}
+
+function formatHunkResult(result: HunkResult, index: number): string {
+	const prefix = `  hunk ${index + 1} ${result.header}: `;
+	if (!result.applied) return `${prefix}rejected, context not found`;
+	const details = [
+		result.offset
+			? `offset ${result.offset > 0 ? "+" : ""}${result.offset}`
+			: "",
+		result.fuzz ? `fuzz ${result.fuzz}` : "",
+	].filter(Boolean);
+	return `${prefix}applied at line ${result.line}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+}
+
+// Files as the sections planned so far leave them, so that several sections
+// for one file apply in turn: content by path (undefined once deleted or
+// renamed away), and the bytes on disk of each file read. Files keep the
+// encoding, byte order mark and line endings they were read with.
+export interface PatchState {
+	content: Map<string, TextFile | undefined>;
+	onDisk: Map<string, Buffer>;
+}
+
+export interface PlannedFile {
+	label: string;
+	oldPath?: string;
+	newPath?: string;
+	results: HunkResult[];
+	error?: string;
+}
+
+function resolvePatchPath(name: string, baseDir: string | undefined): string {
+	const expanded = expandHome(name);
+	if (path.isAbsolute(expanded)) return expanded;
+	if (!baseDir) {
+		throw new Error(`Relative path ${name} in patch needs baseDir`);
+	}
+	return path.join(baseDir, expanded);
+}
+
+// Plain diffs cannot rename, so like patch the file is the name that exists,
+// then the shortest: fewest components, shortest base name, shortest path
+async function choosePatchTarget(
+	names: string[],
+	baseDir: string | undefined,
+	allowedDirectories: AllowedDirectory[],
+): Promise<string> {
+	const existing: string[] = [];
+	for (const name of names) {
+		try {
+			const validPath = await validatePath(
+				resolvePatchPath(name, baseDir),
+				allowedDirectories,
+			);
+			if (await stat(validPath).catch(() => null)) existing.push(name);
+		} catch {}
+	}
+	return [...(existing.length > 0 ? existing : names)].sort(
+		(a, b) =>
+			a.split("/").length - b.split("/").length ||
+			path.basename(a).length - path.basename(b).length ||
+			a.length - b.length,
+	)[0];
+}
+
+async function planFile(
+	filePatch: FilePatch,
+	args: z.infer<typeof ApplyPatchArgsSchema>,
+	allowedDirectories: AllowedDirectory[],
+	state: PatchState,
+): Promise<PlannedFile> {
+	let { oldPath, newPath } = filePatch;
+	if (filePatch.sameFile && oldPath && newPath && oldPath !== newPath) {
+		oldPath = newPath = await choosePatchTarget(
+			[oldPath, newPath],
+			args.baseDir,
+			allowedDirectories,
+		);
+	}
+	const status = !oldPath
+		? "A"
+		: !newPath
+			? "D"
+			: oldPath !== newPath
+				? "R"
+				: "M";
+	const label =
+		status === "R"
+			? `R ${oldPath} -> ${newPath}`
+			: `${status} ${newPath ?? oldPath}`;
+	const planned: PlannedFile = { label, results: [] };
+	const operation = args.dryRun ? "read" : "write";
+
+	try {
+		let original: TextFile | undefined;
+		if (oldPath) {
+			planned.oldPath = await validatePath(
+				resolvePatchPath(oldPath, args.baseDir),
+				allowedDirectories,
+				operation,
+			);
+			if (state.content.has(planned.oldPath)) {
+				const patched = state.content.get(planned.oldPath);
+				if (patched === undefined) {
+					throw new Error(`${oldPath} was removed earlier in the patch`);
+				}
+				original = patched;
+			} else {
+				const { bytes, ...file } = await readTextFileOrThrow(planned.oldPath);
+				original = file;
+				state.onDisk.set(planned.oldPath, bytes);
+			}
+		}
+		if (newPath) {
+			planned.newPath = await validatePath(
+				resolvePatchPath(newPath, args.baseDir),
+				allowedDirectories,
+				operation,
+			);
+			const exists = state.content.has(planned.newPath)
+				? state.content.get(planned.newPath) !== undefined
+				: !!(await stat(planned.newPath).catch(() => null));
+			if (planned.newPath !== planned.oldPath && exists) {
+				throw new Error(`${newPath} already exists`);
+			}
+		}
+
+		const { content, results } = applyHunks(
+			original?.text ?? "",
+			filePatch.hunks,
+			args.fuzz,
+		);
+		planned.results = results;
+		if (!newPath && content.trim() !== "") {
+			throw new Error(
+				"file still has content after removing the deleted lines",
+			);
+		}
+		if (planned.oldPath && planned.oldPath !== planned.newPath) {
+			state.content.set(planned.oldPath, undefined);
+		}
+		if (planned.newPath) {
+			state.content.set(planned.newPath, {
+				text: content,
+				format: original?.format ?? {
+					encoding: "utf-8",
+					bom: false,
+					lineEnding: detectLineEnding(content),
+				},
+			});
+		}
+	} catch (error) {
+		planned.error = error instanceof Error ? error.message : String(error);
+	}
+	return planned;
+}
+
+// Plan every section in order without touching the disk
+export async function planPatch(
+	filePatches: FilePatch[],
+	args: z.infer<typeof ApplyPatchArgsSchema>,
+	allowedDirectories: AllowedDirectory[],
+): Promise<{ planned: PlannedFile[]; state: PatchState }> {
+	const state: PatchState = { content: new Map(), onDisk: new Map() };
+	const planned: PlannedFile[] = [];
+	for (const filePatch of filePatches) {
+		planned.push(await planFile(filePatch, args, allowedDirectories, state));
+	}
+	return { planned, state };
+}
+
+function formatPlan(files: PlannedFile[]): string {
+	return files
+		.map((file) =>
+			[
+				file.label,
+				...file.results.map(formatHunkResult),
+				...(file.error ? [`  error: ${file.error}`] : []),
+			].join("\n"),
+		)
+		.join("\n");
+}
+
+// Tool definitions
+export const tools = [
+	{
+		name: "fs_apply_patch",
+		description:
+			"Apply a unified diff (for example from git diff, diff -u or fs_edit_file) " +
+			"to one or more files. Supports creating, deleting and renaming files " +
+			"in git-style patches. Hunks that moved are found elsewhere in the file, " +
+			"and 'fuzz' lets a few context lines differ. Every hunk is checked " +
+			"before anything is written; if any is rejected no file changes. " +
+			"Reports the result of each hunk. Only works within writable allowed " +
+			"directories.",
+		inputSchema: zodToJsonSchema(ApplyPatchArgsSchema) as ToolInput,
+	},
+];
+
+// Tool handlers
+export async function handleTool(
+	name: string,
+	args: Record<string, unknown> | undefined,
+	allowedDirectories: AllowedDirectory[],
+) {
+	switch (name) {
+		case "fs_apply_patch": {
+			const parsed = ApplyPatchArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for apply_patch: ${parsed.error}`);
+			}
+			const baseDir = parsed.data.baseDir
+				? await validatePath(parsed.data.baseDir, allowedDirectories)
+				: undefined;
+			const filePatches = parseFilePatches(
+				parsed.data.patch,
+				parsed.data.strip,
+			);
+			if (filePatches.length === 0) {
+				throw new Error("No file changes found in patch");
+			}
+
+			const { planned, state } = await planPatch(
+				filePatches,
+				{ ...parsed.data, baseDir },
+				allowedDirectories,
+			);
+			const report = formatPlan(planned);
+			if (
+				planned.some(
+					(file) =>
+						file.error || file.results.some((result) => !result.applied),
+				)
+			) {
+				throw new Error(`Patch not applied, no files were changed:\n${report}`);
+			}
+			if (parsed.data.dryRun) {
+				return {
+					content: [
+						{
+							type: "text",
+							text: `Patch applies cleanly (dry run):\n${report}`,
+						},
+					],
+				};
+			}
+
+			// Only the final state of each file is written
+			const writes = [...state.content].flatMap(([filePath, file]) =>
+				file === undefined
+					? []
+					: [
+							{
+								path: filePath,
+								content: encodeTextFile(file.text, file.format),
+								original: state.onDisk.get(filePath),
+							},
+						],
+			);
+			const removals = [...state.content.keys()].filter(
+				(filePath) =>
+					state.content.get(filePath) === undefined &&
+					state.onDisk.has(filePath),
+			);
+			await getJournal().track(
+				"apply_patch",
+				[...state.content.keys()],
+				async (changes) => {
+					for (const file of writes) {
+						const created = await makeDirectories(path.dirname(file.path));
+						if (created) changes.push(created);
+					}
+					await writeFilesAtomic(writes);
+					for (const filePath of removals) {
+						await rm(filePath);
+					}
+				},
+			);
+			return {
+				content: [{ type: "text", text: `Applied patch:\n${report}` }],
+			};
+		}
+
+		default:
+			return null;
+	}
+}
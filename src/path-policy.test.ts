@@ -0,0 +1,235 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+	mkdir,
+	mkdtemp,
+	realpath,
+	rm,
+	symlink,
+	writeFile,
+} from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { type AllowedDirectory, validatePath } from "./fs";
+import {
+	isCaseSensitive,
+	isPathWithin,
+	relativeWithin,
+	resolveRealPath,
+} from "./path-policy";
+
+let base: string;
+let data: string;
+let allowed: AllowedDirectory[];
+
+beforeAll(async () => {
+	base = await realpath(await mkdtemp(path.join(tmpdir(), "path-policy-")));
+	data = path.join(base, "data");
+	await mkdir(path.join(data, "sub"), { recursive: true });
+	await mkdir(path.join(base, "data2"));
+	await mkdir(path.join(base, "outside"));
+	await writeFile(path.join(data, "file.txt"), "inside");
+	await writeFile(path.join(base, "data2", "secret.txt"), "secret");
+	await writeFile(path.join(base, "outside", "secret.txt"), "secret");
+	await symlink(path.join(base, "outside"), path.join(data, "escape"));
+	await symlink(path.join(data, "sub"), path.join(data, "inner"));
+	await symlink(
+		path.join(base, "outside", "new.txt"),
+		path.join(data, "dangling"),
+	);
+	await symlink("loop-b", path.join(data, "loop-a"));
+	await symlink("loop-a", path.join(data, "loop-b"));
+	allowed = [{ path: data, mode: "write", deny: [] }];
+});
+
+afterAll(async () => {
+	await rm(base, { recursive: true, force: true });
+});
+
+describe("isPathWithin", () => {
+	test("contains the directory itself and its descendants", () => {
+		expect(isPathWithin("/data", "/data")).toBe(true);
+		expect(isPathWithin("/data", "/data/a/b.txt")).toBe(true);
+		expect(isPathWithin("/data/", "/data/a")).toBe(true);
+	});
+
+	test("compares whole segments, not string prefixes", () => {
+		expect(isPathWithin("/data", "/data2")).toBe(false);
+		expect(isPathWithin("/data", "/data2/secret.txt")).toBe(false);
+		expect(isPathWithin("/home/me/proj", "/home/me/project-secrets")).toBe(
+			false,
+		);
+	});
+
+	test("normalizes .. before comparing", () => {
+		expect(isPathWithin("/data", "/data/a/../b")).toBe(true);
+		expect(isPathWithin("/data", "/data/../data2")).toBe(false);
+		expect(isPathWithin("/data", "/data/a/../../etc/passwd")).toBe(false);
+	});
+
+	test("keeps names starting with .. inside", () => {
+		expect(isPathWithin("/data", "/data/..hidden")).toBe(true);
+	});
+
+	test("ignores case only when asked to", () => {
+		expect(isPathWithin("/Data", "/data/file.txt")).toBe(false);
+		expect(isPathWithin("/Data", "/data/file.txt", false)).toBe(true);
+		expect(isPathWithin("/Data", "/DATA2/file.txt", false)).toBe(false);
+	});
+});
+
+describe("relativeWithin", () => {
+	test("returns the path below the parent", () => {
+		expect(relativeWithin("/data", "/data/a/b.txt")).toBe(
+			path.join("a", "b.txt"),
+		);
+		expect(relativeWithin("/data/", "/data/a")).toBe("a");
+		expect(relativeWithin("/data", "/data")).toBe("");
+	});
+
+	test("keeps working when the two differ only in case", () => {
+		expect(relativeWithin("/Data", "/DATA/Sub/File.txt")).toBe(
+			path.join("Sub", "File.txt"),
+		);
+	});
+});
+
+describe("resolveRealPath", () => {
+	test("resolves symlinks in existing paths", async () => {
+		expect(await resolveRealPath(path.join(data, "inner"))).toBe(
+			path.join(data, "sub"),
+		);
+	});
+
+	test("resolves every ancestor of a path that does not exist yet", async () => {
+		expect(
+			await resolveRealPath(path.join(data, "escape", "new", "file.txt")),
+		).toBe(path.join(base, "outside", "new", "file.txt"));
+	});
+
+	test("follows dangling symlinks to where they would create files", async () => {
+		expect(await resolveRealPath(path.join(data, "dangling"))).toBe(
+			path.join(base, "outside", "new.txt"),
+		);
+	});
+
+	test("gives up on symlink loops", async () => {
+		await expect(
+			resolveRealPath(path.join(data, "loop-a", "file.txt")),
+		).rejects.toThrow();
+	});
+});
+
+describe("isCaseSensitive", () => {
+	test("detects a case-sensitive volume", async () => {
+		const dir = path.join(base, "Sensitive");
+		await mkdir(dir);
+		expect(await isCaseSensitive(dir)).toBe(true);
+	});
+
+	test("detects a volume that finds names in any case", async () => {
+		// A link from the swapped name to the same directory looks exactly
+		// like a case-insensitive volume to the probe
+		const dir = path.join(base, "Folded");
+		await mkdir(dir);
+		await symlink(dir, path.join(base, "fOLDED"));
+		expect(await isCaseSensitive(dir)).toBe(false);
+	});
+});
+
+describe("validatePath", () => {
+	test("allows files inside an allowed directory", async () => {
+		expect(await validatePath(path.join(data, "file.txt"), allowed)).toBe(
+			path.join(data, "file.txt"),
+		);
+		expect(
+			await validatePath(path.join(data, "sub", "..", "file.txt"), allowed),
+		).toBe(path.join(data, "file.txt"));
+	});
+
+	test("rejects .. traversal out of the allowed directory", async () => {
+		for (const requested of [
+			path.join(data, "..", "outside", "secret.txt"),
+			`${data}/../data2/secret.txt`,
+			`${data}/sub/../../outside`,
+		]) {
+			await expect(validatePath(requested, allowed)).rejects.toThrow(
+				"Access denied",
+			);
+		}
+	});
+
+	test("rejects directories that only share a prefix", async () => {
+		await expect(
+			validatePath(path.join(base, "data2", "secret.txt"), allowed),
+		).rejects.toThrow("Access denied");
+	});
+
+	test("follows symlinks that stay inside", async () => {
+		expect(await validatePath(path.join(data, "inner"), allowed)).toBe(
+			path.join(data, "sub"),
+		);
+	});
+
+	test("rejects symlinks that escape the allowed directory", async () => {
+		await expect(
+			validatePath(path.join(data, "escape", "secret.txt"), allowed),
+		).rejects.toThrow("Access denied");
+		await expect(
+			validatePath(path.join(data, "escape"), allowed),
+		).rejects.toThrow("Access denied");
+	});
+
+	test("allows writes to new files and directories", async () => {
+		expect(
+			await validatePath(
+				path.join(data, "new", "deep", "file.txt"),
+				allowed,
+				"write",
+			),
+		).toBe(path.join(data, "new", "deep", "file.txt"));
+	});
+
+	test("rejects writes that would land outside through a symlink", async () => {
+		await expect(
+			validatePath(
+				path.join(data, "escape", "new", "file.txt"),
+				allowed,
+				"write",
+			),
+		).rejects.toThrow("Access denied");
+		await expect(
+			validatePath(path.join(data, "dangling"), allowed, "write"),
+		).rejects.toThrow("Access denied");
+	});
+
+	test("rejects writes to read-only directories", async () => {
+		const readOnly: AllowedDirectory[] = [
+			{ path: data, mode: "read", deny: [] },
+		];
+		expect(await validatePath(path.join(data, "file.txt"), readOnly)).toBe(
+			path.join(data, "file.txt"),
+		);
+		await expect(
+			validatePath(path.join(data, "new.txt"), readOnly, "write"),
+		).rejects.toThrow("read-only");
+	});
+
+	test("matches paths in any case on a case-insensitive volume", async () => {
+		const dir = path.join(base, "Docs");
+		await mkdir(dir);
+		await symlink(dir, path.join(base, "dOCS"));
+		const docs: AllowedDirectory[] = [{ path: dir, mode: "write", deny: [] }];
+		expect(
+			await validatePath(path.join(base, "DOCS", "new.txt"), docs, "write"),
+		).toBe(path.join(base, "DOCS", "new.txt"));
+		await expect(
+			validatePath(path.join(base, "DOCS2", "new.txt"), docs, "write"),
+		).rejects.toThrow("Access denied");
+	});
+
+	test("matches case exactly on a case-sensitive volume", async () => {
+		await expect(
+			validatePath(path.join(base, "DATA", "file.txt"), allowed),
+		).rejects.toThrow("Access denied");
+	});
+});
@@ -0,0 +1,159 @@
+import { lstat, readdir, readlink, realpath, stat } from "node:fs/promises";
+import path from "node:path";
+
+// Guess used when a filesystem cannot be probed (e.g. the path does not exist)
+const PLATFORM_CASE_SENSITIVE =
+	process.platform !== "darwin" && process.platform !== "win32";
+
+const MAX_SYMLINK_DEPTH = 40;
+
+function comparable(p: string, caseSensitive: boolean): string {
+	return caseSensitive ? p : p.toLowerCase();
+}
+
+// Whether child is parent itself or lies inside it. Whole path segments are
+// compared, so /home/me/proj does not contain /home/me/project-secrets.
+export function isPathWithin(
+	parent: string,
+	child: string,
+	caseSensitive = true,
+): boolean {
+	const relative = path.relative(
+		comparable(path.resolve(parent), caseSensitive),
+		comparable(path.resolve(child), caseSensitive),
+	);
+	return (
+		relative === "" ||
+		(relative !== ".." &&
+			!relative.startsWith(`..${path.sep}`) &&
+			!path.isAbsolute(relative))
+	);
+}
+
+// The path of child relative to parent, assuming isPathWithin(parent, child).
+// Unlike path.relative this keeps working when the two differ only in case.
+export function relativeWithin(parent: string, child: string): string {
+	const resolvedParent = path.resolve(parent);
+	const resolvedChild = path.resolve(child);
+	if (resolvedChild.length <= resolvedParent.length) return "";
+	const separatorLength = resolvedParent.endsWith(path.sep) ? 0 : 1;
+	return resolvedChild.slice(resolvedParent.length + separatorLength);
+}
+
+function swapCase(text: string): string {
+	return [...text]
+		.map((char) =>
+			char === char.toLowerCase() ? char.toUpperCase() : char.toLowerCase(),
+		)
+		.join("");
+}
+
+const caseSensitivity = new Map<string, Promise<boolean>>();
+
+async function probeCaseSensitivity(dir: string): Promise<boolean> {
+	let current = path.resolve(dir);
+	while (true) {
+		const base = path.basename(current);
+		const swapped = swapCase(base);
+		if (base && swapped !== base) {
+			let original: Awaited<ReturnType<typeof stat>>;
+			try {
+				original = await stat(current);
+			} catch {
+				return PLATFORM_CASE_SENSITIVE;
+			}
+			try {
+				const other = await stat(path.join(path.dirname(current), swapped));
+				return !(other.ino === original.ino && other.dev === original.dev);
+			} catch {
+				return true;
+			}
+		}
+		const parent = path.dirname(current);
+		if (parent === current) return PLATFORM_CASE_SENSITIVE;
+		current = parent;
+	}
+}
+
+// Whether the filesystem holding dir treats names case-sensitively, probed
+// by looking the path up with its case swapped. Results are cached per path.
+export function isCaseSensitive(dir: string): Promise<boolean> {
+	let result = caseSensitivity.get(dir);
+	if (!result) {
+		result = probeCaseSensitivity(dir);
+		caseSensitivity.set(dir, result);
+	}
+	return result;
+}
+
+const realRoots = new Map<string, Promise<string>>();
+
+// The resolved location of an allowed directory, cached like case sensitivity
+// since validatePath consults every root for every path it checks
+export function resolveRoot(dir: string): Promise<string> {
+	let result = realRoots.get(dir);
+	if (!result) {
+		result = resolveRealPath(dir).catch(() => dir);
+		realRoots.set(dir, result);
+	}
+	return result;
+}
+
+// Resolve symlinks in a path that may not fully exist yet: the deepest
+// existing ancestor is resolved with realpath and the missing segments are
+// appended. Dangling symlinks are followed to where they would create files.
+export async function resolveRealPath(absolute: string): Promise<string> {
+	let current = path.resolve(absolute);
+	const missing: string[] = [];
+
+	let depth = 0;
+	while (true) {
+		try {
+			return path.join(await realpath(current), ...missing);
+		} catch {}
+
+		const stats = await lstat(current).catch(() => null);
+		if (stats?.isSymbolicLink()) {
+			if (++depth > MAX_SYMLINK_DEPTH) {
+				throw new Error(`Too many levels of symbolic links: ${absolute}`);
+			}
+			current = path.resolve(path.dirname(current), await readlink(current));
+			continue;
+		}
+		if (stats) {
+			// Exists but cannot be resolved (e.g. a file used as a directory)
+			throw new Error(`Cannot resolve path: ${absolute}`);
+		}
+
+		const parent = path.dirname(current);
+		if (parent === current) {
+			throw new Error(`Cannot resolve path: ${absolute}`);
+		}
+		missing.unshift(path.basename(current));
+		current = parent;
+	}
+}
+
+// Recover the on-disk casing of a path whose segments only match
+// case-insensitively, e.g. one stored lowercased by an older config
+export async function findExistingCasing(
+	absolute: string,
+): Promise<string | undefined> {
+	const { root } = path.parse(absolute);
+	let current = root;
+	for (const segment of absolute.slice(root.length).split(path.sep)) {
+		if (!segment) continue;
+		const exact = path.join(current, segment);
+		if (await stat(exact).catch(() => null)) {
+			current = exact;
+			continue;
+		}
+		const entries = await readdir(current).catch(() => [] as string[]);
+		const match = entries.find(
+			(entry) => entry.toLowerCase() === segment.toLowerCase(),
+		);
+		if (!match) return undefined;
+		current = path.join(current, match);
+	}
+	return current;
+}
@@ -0,0 +1,101 @@
+import { readFile, stat } from "node:fs/promises";
+import { extractText, getDocumentProxy, getMeta } from "unpdf";
+
+export interface PdfDocument {
+	title?: string;
+	author?: string;
+	pageCount: number;
+	pages: string[];
+}
+
+const MAX_CACHED_DOCUMENTS = 16;
+
+// Parsed documents keyed by path, invalidated when the mtime or size changes.
+// Map insertion order doubles as LRU order.
+const cache = new Map<
+	string,
+	{ mtimeMs: number; size: number; document: PdfDocument }
+>();
+
+export async function extractPdf(filePath: string): Promise<PdfDocument> {
+	const stats = await stat(filePath);
+	const cached = cache.get(filePath);
+	if (
+		cached &&
+		cached.mtimeMs === stats.mtimeMs &&
+		cached.size === stats.size
+	) {
+		cache.delete(filePath);
+		cache.set(filePath, cached);
+		return cached.document;
+	}
+
+	const pdf = await getDocumentProxy(new Uint8Array(await readFile(filePath)));
+	try {
+		const { info } = await getMeta(pdf);
+		const { totalPages, text } = await extractText(pdf, { mergePages: false });
+		const document: PdfDocument = {
+			title: info?.Title || undefined,
+			author: info?.Author || undefined,
+			pageCount: totalPages,
+			pages: text,
+		};
+
+		cache.set(filePath, {
+			mtimeMs: stats.mtimeMs,
+			size: stats.size,
+			document,
+		});
+		if (cache.size > MAX_CACHED_DOCUMENTS) {
+			const oldest = cache.keys().next().value;
+			if (oldest !== undefined) cache.delete(oldest);
+		}
+		return document;
+	} finally {
+		await pdf.destroy();
+	}
+}
+
+// Parse a 1-based page selection such as "3", "1-5", "10-" or "1,4,7-9"
+export function parsePageRange(range: string, pageCount: number): number[] {
+	const pages = new Set<number>();
+	for (const part of range.split(",")) {
+		const match = part.trim().match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+		if (!match || (!match[1] && !match[3])) {
+			throw new Error(`Invalid page range: ${range}`);
+		}
+		const start = match[1] ? Number(match[1]) : 1;
+		const end = match[2] ? (match[3] ? Number(match[3]) : pageCount) : start;
+		if (start < 1 || end < start) {
+			throw new Error(`Invalid page range: ${range}`);
+		}
+		for (let page = start; page <= Math.min(end, pageCount); page++) {
+			pages.add(page);
+		}
+	}
+	return [...pages].sort((a, b) => a - b);
+}
+
+export function formatPdf(document: PdfDocument, range?: string): string {
+	const pages = range
+		? parsePageRange(range, document.pageCount)
+		: Array.from({ length: document.pageCount }, (_, i) => i + 1);
+
+	const header = [
+		`title: ${document.title ?? "(none)"}`,
+		`author: ${document.author ?? "(none)"}`,
+		`pages: ${document.pageCount}`,
+	];
+	if (range) {
+		header.push(
+			pages.length > 0
+				? `showing pages: ${range}`
+				: `showing pages: ${range} (no pages in range)`,
+		);
+	}
+
+	const body = pages.map(
+		(page) => `--- Page ${page} ---\n${document.pages[page - 1].trim()}`,
+	);
+	return [header.join("\n"), ...body].join("\n\n");
+}
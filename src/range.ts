@@ -0,0 +1,447 @@
+import { open } from "node:fs/promises";
+import {
+	type TextEncoding,
+	bomLength,
+	decodeText,
+	encodeText,
+} from "./encoding";
+
+export interface ReadRange {
+	offset?: number;
+	limit?: number;
+	head?: number;
+	tail?: number;
+	byteOffset?: number;
+	byteLength?: number;
+	maxChars?: number;
+}
+
+export function hasByteRange(range: ReadRange): boolean {
+	return range.byteOffset !== undefined || range.byteLength !== undefined;
+}
+
+// Line ranges, head, tail and byte ranges each select the slice differently,
+// so at most one of them may be given
+export function validateRange(range: ReadRange) {
+	const modes = [
+		range.offset !== undefined || range.limit !== undefined
+			? "offset/limit"
+			: undefined,
+		range.head !== undefined ? "head" : undefined,
+		range.tail !== undefined ? "tail" : undefined,
+		hasByteRange(range) ? "byteOffset/byteLength" : undefined,
+	].filter(Boolean);
+	if (modes.length > 1) {
+		throw new Error(`Cannot combine ${modes.join(" and ")} in one read`);
+	}
+}
+
+// Lines keep their line endings so joining a slice reproduces the file exactly
+function splitLines(text: string): string[] {
+	return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+// Select lines by offset/limit, head or tail, then keep as many whole lines
+// as fit in maxChars. A marker after the text says which lines were returned
+// and where to continue whenever the result is not the whole text.
+export function sliceLines(text: string, range: ReadRange = {}): string {
+	validateRange(range);
+	const lines = splitLines(text);
+	const total = lines.length;
+
+	let start = 0;
+	let end = total;
+	if (range.tail !== undefined) {
+		start = Math.max(0, total - range.tail);
+	} else if (range.head !== undefined) {
+		end = Math.min(total, range.head);
+	} else {
+		start = (range.offset ?? 1) - 1;
+		if (start > 0 && start >= total) {
+			throw new Error(
+				`offset ${range.offset} is past the end of the file (${total} lines)`,
+			);
+		}
+		if (range.limit !== undefined) end = Math.min(total, start + range.limit);
+	}
+
+	return formatLines(lines.slice(start, end), {
+		first: start,
+		total,
+		more: end < total,
+		maxChars: range.maxChars,
+	});
+}
+
+interface LineWindow {
+	// Index of the first line, counting from 0
+	first: number;
+	// Lines in the whole file, when known
+	total?: number;
+	// Whether lines follow the window
+	more: boolean;
+	maxChars?: number;
+	notes?: string[];
+}
+
+// Keep as many whole lines of a window as fit in maxChars, adding the marker
+function formatLines(lines: string[], window: LineWindow): string {
+	let body = lines.join("");
+	let count = lines.length;
+	let truncated = false;
+	let cutLine = false;
+	if (window.maxChars !== undefined && body.length > window.maxChars) {
+		truncated = true;
+		let length = 0;
+		count = 0;
+		while (
+			count < lines.length &&
+			length + lines[count].length <= window.maxChars
+		) {
+			length += lines[count].length;
+			count++;
+		}
+		if (count === 0) {
+			// A single line longer than the budget is cut rather than dropped
+			body = lines[0].slice(0, window.maxChars);
+			cutLine = true;
+			count = 1;
+		} else {
+			body = lines.slice(0, count).join("");
+		}
+	}
+
+	const start = window.first;
+	const end = start + count;
+	const more = window.more || count < lines.length;
+	const notes = [
+		truncated ? `truncated to maxChars=${window.maxChars}` : undefined,
+		cutLine ? `line ${end} was cut short` : undefined,
+		...(window.notes ?? []),
+	].filter(Boolean);
+	if (start === 0 && !more && notes.length === 0) return body;
+
+	const separator = body.endsWith("\n") || body === "" ? "" : "\n";
+	const of = window.total === undefined ? "" : ` of ${window.total}`;
+	const shown =
+		end === start + 1 ? `line ${end}${of}` : `lines ${start + 1}-${end}${of}`;
+	const detail = notes.length > 0 ? ` (${notes.join(", ")})` : "";
+	const next = more ? `. Continue with offset=${end + 1}` : "";
+	return `${body}${separator}[Showing ${shown}${detail}${next}]`;
+}
+
+// Length of the buffer without a trailing, incomplete UTF-8 sequence
+function completeUtf8Length(buffer: Buffer): number {
+	for (let back = 1; back <= Math.min(3, buffer.length); back++) {
+		const byte = buffer[buffer.length - back];
+		if ((byte & 0xc0) === 0x80) continue;
+		// Lead byte: 110xxxxx starts 2 bytes, 1110xxxx 3, 11110xxx 4
+		const expected = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+		return expected > back ? buffer.length - back : buffer.length;
+	}
+	return buffer.length;
+}
+
+// The most bytes one UTF-16 code unit (one unit of maxChars) can take
+const BYTES_PER_CHAR: Record<TextEncoding, number> = {
+	"utf-8": 3,
+	"utf-16le": 2,
+	"utf-16be": 2,
+	"windows-1252": 1,
+};
+
+// Read part of a text file by byte position without loading the rest, also
+// limited to maxChars and to maxBytes, with a marker saying where to continue
+export async function readByteRange(
+	filePath: string,
+	range: ReadRange,
+	encoding: TextEncoding = "utf-8",
+	maxBytes = Number.POSITIVE_INFINITY,
+): Promise<string> {
+	const handle = await open(filePath, "r");
+	try {
+		const { size } = await handle.stat();
+		// UTF-16 is read in whole code units
+		const unit = encoding.startsWith("utf-16") ? 2 : 1;
+		let start = Math.min(range.byteOffset ?? 0, size);
+		start -= start % unit;
+		const requested = Math.min(range.byteLength ?? size - start, size - start);
+		let length = Math.min(requested, maxBytes);
+		if (range.maxChars !== undefined) {
+			length = Math.min(length, range.maxChars * BYTES_PER_CHAR[encoding]);
+		}
+		const capped = length < requested && length === maxBytes;
+
+		const { buffer, bytesRead } = await handle.read(
+			Buffer.alloc(length),
+			0,
+			length,
+			start,
+		);
+		let bytes = buffer.subarray(0, bytesRead);
+		if (start + bytes.length < size) {
+			bytes = bytes.subarray(
+				0,
+				encoding === "utf-8"
+					? completeUtf8Length(bytes)
+					: bytes.length - (bytes.length % unit),
+			);
+		}
+
+		let text = decodeText(bytes, encoding);
+		let truncated = false;
+		if (range.maxChars !== undefined && text.length > range.maxChars) {
+			text = text.slice(0, range.maxChars);
+			truncated = true;
+		}
+		const end =
+			start +
+			(truncated
+				? bomLength(bytes, encoding) + encodeText(text, encoding).length
+				: bytes.length);
+
+		if (start === 0 && end === size) return text;
+
+		const separator = text.endsWith("\n") || text === "" ? "" : "\n";
+		const notes = [
+			truncated ? `truncated to maxChars=${range.maxChars}` : undefined,
+			capped ? `truncated to maxReadSize=${maxBytes}` : undefined,
+		].filter(Boolean);
+		const detail = notes.length > 0 ? ` (${notes.join(", ")})` : "";
+		const next = end < size ? `. Continue with byteOffset=${end}` : "";
+		return `${text}${separator}[Showing bytes ${start}-${end} of ${size}${detail}${next}]`;
+	} finally {
+		await handle.close();
+	}
+}
+
+export function hasLineRange(range: ReadRange): boolean {
+	return [range.offset, range.limit, range.head, range.tail].some(
+		(value) => value !== undefined,
+	);
+}
+
+const STREAM_CHUNK_SIZE = 64 * 1024;
+
+// Read lines by offset/limit or head from the start of a file, keeping only
+// the lines asked for and at most maxBytes of them
+async function readLeadingLines(
+	filePath: string,
+	range: ReadRange,
+	encoding: TextEncoding,
+	maxBytes: number,
+): Promise<string> {
+	const first = range.head === undefined ? (range.offset ?? 1) : 1;
+	const wanted = range.head ?? range.limit ?? Number.POSITIVE_INFINITY;
+	const lines: string[] = [];
+	let length = 0;
+	let lineNumber = 0;
+	// The current line, only collected once the first line wanted is reached
+	let partial = "";
+	let inLine = false;
+	let capped = false;
+	let atEnd = false;
+	let more = false;
+
+	const handle = await open(filePath, "r");
+	try {
+		const { size } = await handle.stat();
+		const decoder = new TextDecoder(encoding);
+		const buffer = Buffer.alloc(STREAM_CHUNK_SIZE);
+		let position = 0;
+		while (!atEnd && lines.length < wanted && !capped) {
+			const { bytesRead } = await handle.read(
+				buffer,
+				0,
+				STREAM_CHUNK_SIZE,
+				position,
+			);
+			position += bytesRead;
+			atEnd = bytesRead === 0;
+			const text = atEnd
+				? decoder.decode()
+				: decoder.decode(buffer.subarray(0, bytesRead), { stream: true });
+			let from = 0;
+			while (lines.length < wanted) {
+				const newline = text.indexOf("\n", from);
+				const piece = text.slice(
+					from,
+					newline === -1 ? text.length : newline + 1,
+				);
+				from += piece.length;
+				inLine ||= piece !== "";
+				const collecting = lineNumber + 1 >= first;
+				if (collecting) partial += piece;
+				if (collecting && length + partial.length > maxBytes) {
+					capped = true;
+					break;
+				}
+				// Only the last line of a file can end without a line feed
+				if (newline === -1 && !(atEnd && inLine)) break;
+				lineNumber++;
+				if (collecting) {
+					lines.push(partial);
+					length += partial.length;
+				}
+				partial = "";
+				inLine = false;
+				if (newline === -1) break;
+			}
+			more = capped || from < text.length || position < size;
+		}
+	} finally {
+		await handle.close();
+	}
+
+	if (lines.length === 0 && first > 1 && !capped) {
+		throw new Error(
+			`offset ${first} is past the end of the file (${lineNumber} lines)`,
+		);
+	}
+	const notes: string[] = [];
+	if (capped) {
+		if (lines.length === 0) {
+			// A first line longer than maxBytes is cut rather than dropped
+			lines.push(partial.slice(0, maxBytes));
+			notes.push(`line ${first} was cut short`);
+		}
+		notes.push(`truncated to maxReadSize=${maxBytes}`);
+	}
+	return formatLines(lines, {
+		first: first - 1,
+		total: more ? undefined : lineNumber,
+		more,
+		maxChars: range.maxChars,
+		notes,
+	});
+}
+
+// Bytes of a line feed; in UTF-16 it is a whole code unit
+function lineFeed(encoding: TextEncoding): number[] {
+	if (encoding === "utf-16le") return [0x0a, 0];
+	if (encoding === "utf-16be") return [0, 0x0a];
+	return [0x0a];
+}
+
+// Read the last lines of a file by scanning back from its end for line
+// feeds, reading at most maxBytes. Line numbers are not known without reading
+// everything before, so the marker gives byte positions instead.
+async function readTrailingLines(
+	filePath: string,
+	tail: number,
+	maxChars: number | undefined,
+	encoding: TextEncoding,
+	maxBytes: number,
+): Promise<string> {
+	const feed = lineFeed(encoding);
+	const unit = feed.length;
+	const handle = await open(filePath, "r");
+	let size: number;
+	let bytes: Buffer;
+	let start = 0;
+	let cutLine = false;
+	let capped = false;
+	try {
+		size = (await handle.stat()).size;
+		const end = size - (size % unit);
+		const buffer = Buffer.alloc(STREAM_CHUNK_SIZE);
+		let lineStart: number | undefined;
+		let found = 0;
+		let position = end;
+		scan: while (position > 0) {
+			const chunkStart = Math.max(0, position - STREAM_CHUNK_SIZE);
+			const { bytesRead } = await handle.read(
+				buffer,
+				0,
+				position - chunkStart,
+				chunkStart,
+			);
+			for (let i = bytesRead - unit; i >= 0; i -= unit) {
+				const at = chunkStart + i;
+				if (size - at > maxBytes) {
+					capped = true;
+					cutLine = lineStart === undefined;
+					start = lineStart ?? size - maxBytes + ((size - maxBytes) % unit);
+					break scan;
+				}
+				// The line feed ending the file does not start another line
+				if (at + unit === end) continue;
+				if (feed.every((byte, j) => buffer[i + j] === byte)) {
+					lineStart = at + unit;
+					if (++found === tail) {
+						start = lineStart;
+						break scan;
+					}
+				}
+			}
+			position = chunkStart;
+		}
+		bytes = Buffer.alloc(size - start);
+		await handle.read(bytes, 0, bytes.length, start);
+	} finally {
+		await handle.close();
+	}
+
+	const lines = splitLines(decodeText(bytes, encoding));
+	if (start === 0) {
+		return formatLines(lines, {
+			first: 0,
+			total: lines.length,
+			more: false,
+			maxChars,
+		});
+	}
+
+	let body = lines.join("");
+	let count = lines.length;
+	let truncated = false;
+	if (maxChars !== undefined && body.length > maxChars) {
+		truncated = true;
+		let length = 0;
+		count = 0;
+		while (count < lines.length && length + lines[count].length <= maxChars) {
+			length += lines[count].length;
+			count++;
+		}
+		body =
+			count === 0
+				? lines[0].slice(0, maxChars)
+				: lines.slice(0, count).join("");
+		count = Math.max(count, 1);
+	}
+	const shownEnd = truncated ? start + encodeText(body, encoding).length : size;
+	const notes = [
+		cutLine ? "the first line was cut short" : undefined,
+		capped ? `truncated to maxReadSize=${maxBytes}` : undefined,
+		truncated ? `truncated to maxChars=${maxChars}` : undefined,
+	].filter(Boolean);
+	const separator = body.endsWith("\n") || body === "" ? "" : "\n";
+	const shown = count === 1 ? "1 line" : `${count} lines`;
+	const detail = notes.length > 0 ? ` (${notes.join(", ")})` : "";
+	const next =
+		shownEnd < size
+			? `. Continue with byteOffset=${shownEnd}`
+			: ". Read earlier lines with byteOffset and byteLength";
+	return `${body}${separator}[Showing ${shown}, bytes ${start}-${shownEnd} of ${size}${detail}${next}]`;
+}
+
+// Read a line range of a text file too big to load whole: offset/limit and
+// head stream from the start, tail from the end
+export async function readLineRange(
+	filePath: string,
+	range: ReadRange,
+	encoding: TextEncoding,
+	maxBytes: number,
+): Promise<string> {
+	validateRange(range);
+	if (range.tail !== undefined) {
+		return readTrailingLines(
+			filePath,
+			range.tail,
+			range.maxChars,
+			encoding,
+			maxBytes,
+		);
+	}
+	return readLeadingLines(filePath, range, encoding, maxBytes);
+}
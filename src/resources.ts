@@ -0,0 +1,220 @@
+import { type FSWatcher, watch } from "node:fs";
+import { readFile, readdir, stat } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type {
+	ListResourceTemplatesResult,
+	ListResourcesResult,
+	ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { decodeTextFile } from "./encoding";
+import {
+	type AllowedDirectory,
+	checkReadSize,
+	isExcluded,
+	validatePath,
+} from "./fs";
+import { detectMimeType, mimeTypeFromExtension } from "./mime";
+import { resolveRoot } from "./path-policy";
+import { DEFAULT_INDEX_EXCLUDES } from "./semantic-index";
+
+const PAGE_SIZE = 100;
+const UPDATE_DEBOUNCE_MS = 100;
+
+// A cursor names the root being listed and the last path returned from it,
+// so the next page resumes there instead of walking everything before it
+interface ResourceCursor {
+	root: number;
+	after: string;
+}
+
+function encodeCursor(cursor: ResourceCursor): string {
+	return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string | undefined): ResourceCursor | undefined {
+	if (!cursor) return undefined;
+	try {
+		const { root, after } = JSON.parse(
+			Buffer.from(cursor, "base64url").toString("utf-8"),
+		);
+		if (Number.isInteger(root) && root >= 0 && typeof after === "string") {
+			return { root, after };
+		}
+	} catch {}
+	throw new Error(`Invalid cursor: ${cursor}`);
+}
+
+// Order relative paths the way the walk visits them: segment by segment
+function comparePaths(a: string, b: string): number {
+	const left = a.split(path.sep);
+	const right = b.split(path.sep);
+	for (let i = 0; i < Math.min(left.length, right.length); i++) {
+		if (left[i] !== right[i]) return left[i] < right[i] ? -1 : 1;
+	}
+	return left.length - right.length;
+}
+
+// Files below root as paths relative to it, in sorted order, starting after
+// the given path. Symlinked directories are not followed, so every name stays
+// inside its root and there are no cycles to track.
+async function* walkResources(
+	root: string,
+	allowedDirectories: AllowedDirectory[],
+	after: string | undefined,
+	relativeDir = "",
+): AsyncGenerator<string> {
+	const entries = (
+		await readdir(path.join(root, relativeDir), { withFileTypes: true }).catch(
+			() => [],
+		)
+	).sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+	for (const entry of entries) {
+		const relativePath = path.join(relativeDir, entry.name);
+		// Whole subtrees before the cursor are skipped without reading them
+		if (
+			after !== undefined &&
+			comparePaths(relativePath, after) <= 0 &&
+			!after.startsWith(`${relativePath}${path.sep}`)
+		) {
+			continue;
+		}
+		if (isExcluded(relativePath, DEFAULT_INDEX_EXCLUDES)) continue;
+		const fullPath = path.join(root, relativePath);
+		try {
+			if (entry.isDirectory()) {
+				yield* walkResources(root, allowedDirectories, after, relativePath);
+				continue;
+			}
+			await validatePath(fullPath, allowedDirectories);
+			if (!(await stat(fullPath)).isFile()) continue;
+		} catch {
+			continue;
+		}
+		yield relativePath;
+	}
+}
+
+function uriToPath(uri: string): string {
+	if (!uri.startsWith("file://")) {
+		throw new Error(`Unsupported resource URI: ${uri}`);
+	}
+	return fileURLToPath(uri);
+}
+
+// Files under the allowed directories, in a stable order, one page at a time
+export async function listResources(
+	allowedDirectories: AllowedDirectory[],
+	cursor?: string,
+): Promise<ListResourcesResult> {
+	const start = decodeCursor(cursor);
+	const resources: ListResourcesResult["resources"] = [];
+
+	const dirs = [...allowedDirectories].sort((a, b) =>
+		a.path < b.path ? -1 : a.path > b.path ? 1 : 0,
+	);
+	for (let i = start?.root ?? 0; i < dirs.length; i++) {
+		// Walked from where the directory really is, so names never need ../
+		const root = await resolveRoot(dirs[i].path);
+		const after = i === start?.root ? start.after : undefined;
+		let last: string | undefined;
+		for await (const relativePath of walkResources(
+			root,
+			allowedDirectories,
+			after,
+		)) {
+			if (resources.length === PAGE_SIZE) {
+				return {
+					resources,
+					nextCursor: encodeCursor({ root: i, after: last ?? "" }),
+				};
+			}
+			const filePath = path.join(root, relativePath);
+			resources.push({
+				uri: pathToFileURL(filePath).href,
+				name: path.join(path.basename(dirs[i].path), relativePath),
+				mimeType: mimeTypeFromExtension(filePath),
+			});
+			last = relativePath;
+		}
+	}
+	return { resources };
+}
+
+export function listResourceTemplates(): ListResourceTemplatesResult {
+	return {
+		resourceTemplates: [
+			{
+				uriTemplate: "file://{+path}",
+				name: "Files in allowed directories",
+				description:
+					"Any file under a directory listed by fs_list_allowed_directories, " +
+					"addressed by its absolute path",
+			},
+		],
+	};
+}
+
+export async function readResource(
+	uri: string,
+	allowedDirectories: AllowedDirectory[],
+): Promise<ReadResourceResult> {
+	const validPath = await validatePath(uriToPath(uri), allowedDirectories);
+	await checkReadSize(validPath);
+	const buffer = await readFile(validPath);
+	const mimeType = detectMimeType(buffer, validPath);
+	const file =
+		mimeType === "application/pdf" ||
+		(mimeType.startsWith("image/") && mimeType !== "image/svg+xml")
+			? undefined
+			: decodeTextFile(buffer);
+	if (!file) {
+		return {
+			contents: [{ uri, mimeType, blob: buffer.toString("base64") }],
+		};
+	}
+	return {
+		contents: [{ uri, mimeType, text: file.text }],
+	};
+}
+
+// The files one client has subscribed to; each session has its own, so one
+// client unsubscribing does not silence another
+export class ResourceSubscriptions {
+	private watchers = new Map<string, FSWatcher>();
+
+	// Watch a file and call onUpdate (debounced) whenever it changes on disk
+	async subscribe(
+		uri: string,
+		allowedDirectories: AllowedDirectory[],
+		onUpdate: (uri: string) => void,
+	): Promise<void> {
+		if (this.watchers.has(uri)) return;
+		const validPath = await validatePath(uriToPath(uri), allowedDirectories);
+
+		// Watch the parent directory so that editors which save by replacing the
+		// file (write to a temp file, then rename) are still noticed
+		const fileName = path.basename(validPath);
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const watcher = watch(path.dirname(validPath), (_event, changed) => {
+			if (changed && changed.toString() !== fileName) return;
+			clearTimeout(timer);
+			timer = setTimeout(() => onUpdate(uri), UPDATE_DEBOUNCE_MS);
+		});
+		watcher.on("error", () => {
+			clearTimeout(timer);
+			this.unsubscribe(uri);
+		});
+		watcher.on("close", () => clearTimeout(timer));
+		this.watchers.set(uri, watcher);
+	}
+
+	unsubscribe(uri: string): void {
+		this.watchers.get(uri)?.close();
+		this.watchers.delete(uri);
+	}
+
+	close(): void {
+		for (const uri of [...this.watchers.keys()]) this.unsubscribe(uri);
+	}
+}
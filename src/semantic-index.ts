@@ -0,0 +1,335 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { CONFIG_DIR } from "./config";
+import { type Embedder, cosineSimilarity, tokenize } from "./embedder";
+import { decodeTextFile } from "./encoding";
+import { type AllowedDirectory, isExcluded, validatePath } from "./fs";
+import { isPathWithin } from "./path-policy";
+
+export const INDEX_FILE = path.join(CONFIG_DIR, "index.json");
+const INDEX_VERSION = 1;
+
+const MAX_FILE_SIZE = 1024 * 1024;
+const CHUNK_LINES = 40;
+const CHUNK_OVERLAP = 8;
+const CHUNK_CHARS = 2000;
+const SNIPPET_LINES = 4;
+
+export const DEFAULT_INDEX_EXCLUDES = [
+	".git",
+	"node_modules",
+	".DS_Store",
+	"dist",
+	"build",
+	".next",
+	".cache",
+];
+
+export interface TextChunk {
+	startLine: number;
+	endLine: number;
+	text: string;
+}
+
+export interface Chunk extends TextChunk {
+	vector: Float32Array;
+}
+
+export interface IndexedFile {
+	mtimeMs: number;
+	size: number;
+	hash: string;
+	chunks: Chunk[];
+}
+
+// What happened to a file when it was (re)indexed
+export type IndexOutcome = "indexed" | "unchanged" | "skipped";
+
+export interface SearchHit {
+	path: string;
+	startLine: number;
+	endLine: number;
+	snippet: string;
+	score: number;
+}
+
+interface SerializedIndex {
+	version: number;
+	embedder: string;
+	files: Record<
+		string,
+		Omit<IndexedFile, "chunks"> & {
+			chunks: Array<TextChunk & { vector: string }>;
+		}
+	>;
+}
+
+// Utility functions
+export function hashContent(content: Uint8Array | string): string {
+	return createHash("sha1").update(content).digest("hex");
+}
+
+function encodeVector(vector: Float32Array): string {
+	return Buffer.from(
+		vector.buffer,
+		vector.byteOffset,
+		vector.byteLength,
+	).toString("base64");
+}
+
+function decodeVector(encoded: string): Float32Array {
+	const bytes = Uint8Array.from(Buffer.from(encoded, "base64"));
+	return new Float32Array(bytes.buffer);
+}
+
+// Split text into overlapping windows of whole lines
+export function chunkText(text: string): TextChunk[] {
+	const lines = text.split("\n");
+	const chunks: TextChunk[] = [];
+	let start = 0;
+
+	while (start < lines.length) {
+		let end = start;
+		let chars = 0;
+		while (
+			end < lines.length &&
+			end - start < CHUNK_LINES &&
+			(end === start || chars + lines[end].length <= CHUNK_CHARS)
+		) {
+			chars += lines[end].length + 1;
+			end++;
+		}
+
+		const body = lines.slice(start, end).join("\n");
+		if (body.trim()) {
+			chunks.push({
+				startLine: start + 1,
+				endLine: end,
+				text: body.slice(0, CHUNK_CHARS),
+			});
+		}
+		if (end >= lines.length) break;
+		start = Math.max(start + 1, end - CHUNK_OVERLAP);
+	}
+
+	return chunks;
+}
+
+// Pick the few lines of a chunk that share the most terms with the query
+export function makeSnippet(text: string, query: string): string {
+	const queryTokens = new Set(tokenize(query));
+	const lines = text.split("\n");
+	let bestLine = 0;
+	let bestScore = 0;
+	lines.forEach((line, i) => {
+		const score = tokenize(line).filter((token) =>
+			queryTokens.has(token),
+		).length;
+		if (score > bestScore) {
+			bestScore = score;
+			bestLine = i;
+		}
+	});
+	const start = Math.max(0, bestLine - 1);
+	return lines
+		.slice(start, start + SNIPPET_LINES)
+		.join("\n")
+		.slice(0, 500);
+}
+
+export class SemanticIndex {
+	readonly embedder: Embedder;
+	readonly indexPath: string;
+	private files = new Map<string, IndexedFile>();
+
+	constructor(embedder: Embedder, indexPath = INDEX_FILE) {
+		this.embedder = embedder;
+		this.indexPath = indexPath;
+	}
+
+	get fileCount(): number {
+		return this.files.size;
+	}
+
+	get chunkCount(): number {
+		let count = 0;
+		for (const file of this.files.values()) count += file.chunks.length;
+		return count;
+	}
+
+	paths(): string[] {
+		return [...this.files.keys()];
+	}
+
+	get(filePath: string): IndexedFile | undefined {
+		return this.files.get(filePath);
+	}
+
+	async load(): Promise<void> {
+		let data: SerializedIndex;
+		try {
+			data = JSON.parse(await readFile(this.indexPath, "utf-8"));
+		} catch {
+			return;
+		}
+		// Vectors from a different embedder are not comparable, so start over
+		if (data.version !== INDEX_VERSION || data.embedder !== this.embedder.id) {
+			return;
+		}
+		for (const [filePath, file] of Object.entries(data.files)) {
+			this.files.set(filePath, {
+				...file,
+				chunks: file.chunks.map((chunk) => ({
+					...chunk,
+					vector: decodeVector(chunk.vector),
+				})),
+			});
+		}
+	}
+
+	async save(): Promise<void> {
+		const data: SerializedIndex = {
+			version: INDEX_VERSION,
+			embedder: this.embedder.id,
+			files: {},
+		};
+		for (const [filePath, file] of this.files) {
+			data.files[filePath] = {
+				...file,
+				chunks: file.chunks.map((chunk) => ({
+					...chunk,
+					vector: encodeVector(chunk.vector),
+				})),
+			};
+		}
+		await mkdir(path.dirname(this.indexPath), { recursive: true });
+		await writeFile(this.indexPath, JSON.stringify(data));
+	}
+
+	// Only re-embeds when the content hash changed; a touched but identical
+	// file just has its recorded mtime updated
+	async indexFile(filePath: string): Promise<IndexOutcome> {
+		const stats = await stat(filePath);
+		const existing = this.files.get(filePath);
+		if (
+			existing &&
+			existing.mtimeMs === stats.mtimeMs &&
+			existing.size === stats.size
+		) {
+			return "unchanged";
+		}
+		if (!stats.isFile() || stats.size > MAX_FILE_SIZE) {
+			this.files.delete(filePath);
+			return "skipped";
+		}
+		const buffer = await readFile(filePath);
+		const file = decodeTextFile(buffer);
+		if (!file) {
+			this.files.delete(filePath);
+			return "skipped";
+		}
+
+		const hash = hashContent(buffer);
+		if (existing && existing.hash === hash) {
+			existing.mtimeMs = stats.mtimeMs;
+			existing.size = stats.size;
+			return "unchanged";
+		}
+
+		const textChunks = chunkText(file.text);
+		const vectors =
+			textChunks.length > 0
+				? await this.embedder.embed(textChunks.map((chunk) => chunk.text))
+				: [];
+		this.files.set(filePath, {
+			mtimeMs: stats.mtimeMs,
+			size: stats.size,
+			hash,
+			chunks: textChunks.map((chunk, i) => ({ ...chunk, vector: vectors[i] })),
+		});
+		return "indexed";
+	}
+
+	remove(filePath: string): boolean {
+		return this.files.delete(filePath);
+	}
+
+	clear(): void {
+		this.files.clear();
+	}
+
+	async search(
+		query: string,
+		options: { limit?: number; roots?: string[] } = {},
+	): Promise<SearchHit[]> {
+		const { limit = 10, roots } = options;
+		const [queryVector] = await this.embedder.embed([query]);
+		const hits: SearchHit[] = [];
+
+		for (const [filePath, file] of this.files) {
+			if (roots && !roots.some((root) => isPathWithin(root, filePath)))
+				continue;
+			for (const chunk of file.chunks) {
+				const score = cosineSimilarity(queryVector, chunk.vector);
+				if (score <= 0) continue;
+				hits.push({
+					path: filePath,
+					startLine: chunk.startLine,
+					endLine: chunk.endLine,
+					snippet: chunk.text,
+					score,
+				});
+			}
+		}
+
+		hits.sort((a, b) => b.score - a.score);
+		return hits.slice(0, limit).map((hit) => ({
+			...hit,
+			snippet: makeSnippet(hit.snippet, query),
+		}));
+	}
+}
+
+// Walk a directory, yielding every allowed regular file that is not excluded
+export async function* walkFiles(
+	rootPath: string,
+	allowedDirectories: AllowedDirectory[],
+	excludePatterns: string[] = DEFAULT_INDEX_EXCLUDES,
+	// Real paths of directories already walked, so symlink cycles end
+	visited = new Set<string>([rootPath]),
+): AsyncGenerator<string> {
+	let entries: string[];
+	try {
+		// Sorted so that paged listings are deterministic
+		entries = (await readdir(rootPath)).sort();
+	} catch {
+		return;
+	}
+
+	for (const entry of entries) {
+		const fullPath = path.join(rootPath, entry);
+		let validPath: string;
+		try {
+			validPath = await validatePath(fullPath, allowedDirectories);
+			const relativePath = path.relative(rootPath, fullPath);
+			if (isExcluded(relativePath, excludePatterns)) continue;
+			const stats = await stat(validPath);
+			if (stats.isDirectory()) {
+				if (visited.has(validPath)) continue;
+				visited.add(validPath);
+				yield* walkFiles(
+					validPath,
+					allowedDirectories,
+					excludePatterns,
+					visited,
+				);
+				continue;
+			}
+			if (!stats.isFile()) continue;
+		} catch {
+			continue;
+		}
+		yield validPath;
+	}
+}
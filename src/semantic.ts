@@ -0,0 +1,216 @@
+import { ToolSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { createEmbedder } from "./embedder";
+import { type AllowedDirectory, validatePath } from "./fs";
+import { type IndexRun, type IndexStatus, Indexer } from "./indexer";
+import { resolveRoot } from "./path-policy";
+import { type SearchHit, SemanticIndex } from "./semantic-index";
+
+const ToolInputSchema = ToolSchema.shape.inputSchema;
+type ToolInput = z.infer<typeof ToolInputSchema>;
+const ToolOutputSchema = ToolSchema.shape.outputSchema.unwrap();
+type ToolOutput = z.infer<typeof ToolOutputSchema>;
+
+// Schema definitions
+export const SemanticSearchArgsSchema = z.object({
+	query: z.string().describe("Natural language description of what to find"),
+	path: z
+		.string()
+		.optional()
+		.describe("Only return results under this directory"),
+	limit: z.number().int().positive().max(100).default(10),
+});
+
+export const SemanticSearchResultSchema = z.object({
+	hits: z.array(
+		z.object({
+			path: z.string(),
+			startLine: z.number(),
+			endLine: z.number(),
+			snippet: z.string(),
+			score: z.number(),
+		}),
+	),
+	// Files still waiting to be indexed, whose chunks may be missing
+	pending: z.number(),
+});
+
+export const ReindexArgsSchema = z.object({
+	paths: z
+		.array(z.string())
+		.optional()
+		.describe(
+			"Files or directories to reindex; omit to reindex every allowed directory",
+		),
+	force: z
+		.boolean()
+		.default(false)
+		.describe("Re-embed files even if their content has not changed"),
+});
+
+let sharedIndexer: Promise<Indexer> | undefined;
+
+function getIndexer(): Promise<Indexer> {
+	if (!sharedIndexer) {
+		sharedIndexer = (async () => {
+			const index = new SemanticIndex(createEmbedder());
+			await index.load();
+			return new Indexer(index);
+		})();
+	}
+	return sharedIndexer;
+}
+
+// Start (or retarget) the background indexer for the given directories
+export async function startIndexer(
+	allowedDirectories: AllowedDirectory[],
+): Promise<Indexer> {
+	const indexer = await getIndexer();
+	await indexer.setRoots(allowedDirectories);
+	return indexer;
+}
+
+export function formatHits(hits: SearchHit[]): string {
+	if (hits.length === 0) return "No matches found";
+	return hits
+		.map((hit, i) => {
+			const snippet = hit.snippet
+				.split("\n")
+				.map((line) => `    ${line}`)
+				.join("\n");
+			return `${i + 1}. ${hit.path}:${hit.startLine}-${hit.endLine} (score ${hit.score.toFixed(3)})\n${snippet}`;
+		})
+		.join("\n\n");
+}
+
+function formatRun(run: IndexRun): string {
+	const seconds = (run.finishedAt.getTime() - run.startedAt.getTime()) / 1000;
+	return (
+		`indexed ${run.indexed}, unchanged ${run.unchanged}, skipped ${run.skipped}, ` +
+		`removed ${run.removed}, failed ${run.failed} in ${seconds.toFixed(1)}s`
+	);
+}
+
+function formatStatus(status: IndexStatus): string {
+	const lines = [
+		`filesIndexed: ${status.filesIndexed}`,
+		`chunks: ${status.chunks}`,
+		`pending: ${status.pending}`,
+		`running: ${status.running}`,
+		`failed: ${status.failed.length}`,
+		`watching: ${status.watching.join(", ") || "(none)"}`,
+		`lastRun: ${
+			status.lastRun
+				? `${status.lastRun.finishedAt.toISOString()} (${formatRun(status.lastRun)})`
+				: "never"
+		}`,
+	];
+	for (const failure of status.failed) {
+		lines.push(`  ${failure.path}: ${failure.error}`);
+	}
+	return lines.join("\n");
+}
+
+// Tool definitions
+export const tools = [
+	{
+		name: "fs_semantic_search",
+		description:
+			"Search the contents of text files in the allowed directories by meaning " +
+			"rather than by exact name. Files are split into chunks and ranked by " +
+			"similarity to the query. Returns the path, line range, a short snippet " +
+			"and a score for each hit; use fs_read_file to see the full context. " +
+			"Optionally restrict results to a subdirectory with 'path'.",
+		inputSchema: zodToJsonSchema(SemanticSearchArgsSchema) as ToolInput,
+		outputSchema: zodToJsonSchema(SemanticSearchResultSchema) as ToolOutput,
+	},
+	{
+		name: "fs_reindex",
+		description:
+			"Bring the semantic search index up to date and wait for it to finish. " +
+			"The index is normally kept current by a background file watcher; use " +
+			"this after bulk changes or if fs_index_status reports failures. Pass " +
+			"'paths' to reindex specific files or directories only.",
+		inputSchema: zodToJsonSchema(ReindexArgsSchema) as ToolInput,
+	},
+	{
+		name: "fs_index_status",
+		description:
+			"Report the state of the semantic search index: how many files and chunks " +
+			"are indexed, how many changes are still pending, which files failed and " +
+			"when the last indexing run finished. Use this to judge whether search " +
+			"results may be stale.",
+		inputSchema: {
+			type: "object",
+			properties: {},
+			required: [],
+		},
+	},
+];
+
+// Tool handlers
+export async function handleTool(
+	name: string,
+	args: Record<string, unknown> | undefined,
+	allowedDirectories: AllowedDirectory[],
+) {
+	switch (name) {
+		case "fs_semantic_search": {
+			const parsed = SemanticSearchArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(
+					`Invalid arguments for semantic_search: ${parsed.error}`,
+				);
+			}
+			const roots = parsed.data.path
+				? [await validatePath(parsed.data.path, allowedDirectories)]
+				: await Promise.all(
+						allowedDirectories.map((dir) => resolveRoot(dir.path)),
+					);
+			const indexer = await startIndexer(allowedDirectories);
+			const hits = await indexer.index.search(parsed.data.query, {
+				limit: parsed.data.limit,
+				roots,
+			});
+			let text = formatHits(hits);
+			const { pending } = indexer.status();
+			if (pending > 0) {
+				text += `\n\nNote: ${pending} files are still being indexed, results may be incomplete.`;
+			}
+			return {
+				content: [{ type: "text", text }],
+				structuredContent: { hits, pending },
+			};
+		}
+
+		case "fs_reindex": {
+			const parsed = ReindexArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(`Invalid arguments for reindex: ${parsed.error}`);
+			}
+			const paths = parsed.data.paths
+				? await Promise.all(
+						parsed.data.paths.map((p) => validatePath(p, allowedDirectories)),
+					)
+				: undefined;
+			const indexer = await startIndexer(allowedDirectories);
+			const run = await indexer.reindex(paths, parsed.data.force);
+			return {
+				content: [
+					{ type: "text", text: `Reindex complete: ${formatRun(run)}` },
+				],
+			};
+		}
+
+		case "fs_index_status": {
+			const indexer = await startIndexer(allowedDirectories);
+			return {
+				content: [{ type: "text", text: formatStatus(indexer.status()) }],
+			};
+		}
+
+		default:
+			return null;
+	}
+}
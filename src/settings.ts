@@ -0,0 +1,203 @@
+import { type FSWatcher, watch } from "node:fs";
+import { stat } from "node:fs/promises";
+import path from "node:path";
+import { minimatch } from "minimatch";
+import { z } from "zod";
+import {
+	CONFIG_DIR,
+	CONFIG_FILE,
+	formatIssues,
+	readJsonConfig,
+} from "./config";
+
+// Looked up from the working directory upwards; the nearest one applies
+export const PROJECT_SETTINGS_FILE = ".semantic-fs.json";
+
+export const SettingsSchema = z
+	.object({
+		maxReadSize: z
+			.number()
+			.int()
+			.positive()
+			.default(10 * 1024 * 1024)
+			.describe(
+				"Largest file, in bytes, read whole; larger text files need a byte range",
+			),
+		defaultExcludes: z
+			.array(z.string())
+			.default([".git", "node_modules"])
+			.describe(
+				"Patterns in .gitignore syntax skipped by listings and searches that respect ignore files",
+			),
+		enabledTools: z
+			.array(z.string())
+			.optional()
+			.describe(
+				"Tool names or globs to offer, such as fs_read_*; all if unset",
+			),
+		disabledTools: z
+			.array(z.string())
+			.default([])
+			.describe("Tool names or globs to withhold, even if enabled"),
+		embedder: z
+			.string()
+			.default("hashing")
+			.describe("hashing, or ollama:<model>; read when the server starts"),
+	})
+	.strict();
+
+export type Settings = z.infer<typeof SettingsSchema>;
+
+// Every layer may set any subset of the settings; later layers replace the
+// values of earlier ones, lists included
+const SettingsLayerSchema = SettingsSchema.partial();
+
+type SettingsLayer = z.infer<typeof SettingsLayerSchema>;
+
+// Environment variables override both files; lists are comma-separated
+const ENVIRONMENT_VARIABLES = {
+	SEMANTIC_FS_MAX_READ_SIZE: "maxReadSize",
+	SEMANTIC_FS_DEFAULT_EXCLUDES: "defaultExcludes",
+	SEMANTIC_FS_ENABLED_TOOLS: "enabledTools",
+	SEMANTIC_FS_DISABLED_TOOLS: "disabledTools",
+	SEMANTIC_FS_EMBEDDER: "embedder",
+} as const satisfies Record<string, keyof Settings>;
+
+export function globalSettingsFile(): string {
+	return path.join(CONFIG_DIR, "config.json");
+}
+
+export async function findProjectSettingsFile(
+	start = process.cwd(),
+): Promise<string | undefined> {
+	let current = path.resolve(start);
+	while (true) {
+		const candidate = path.join(current, PROJECT_SETTINGS_FILE);
+		if (await stat(candidate).catch(() => null)) return candidate;
+		const parent = path.dirname(current);
+		if (parent === current) return undefined;
+		current = parent;
+	}
+}
+
+function settingsFromEnvironment(env: NodeJS.ProcessEnv): SettingsLayer {
+	const layer: Record<string, unknown> = {};
+	for (const [variable, key] of Object.entries(ENVIRONMENT_VARIABLES)) {
+		const value = env[variable];
+		if (value === undefined || value === "") continue;
+		const parsed = SettingsLayerSchema.shape[key].safeParse(
+			key === "maxReadSize"
+				? Number(value)
+				: key === "embedder"
+					? value
+					: value
+							.split(",")
+							.map((item) => item.trim())
+							.filter(Boolean),
+		);
+		if (!parsed.success) {
+			throw new Error(
+				`Invalid ${variable}: ${parsed.error.issues.map((issue) => issue.message).join("; ")}`,
+			);
+		}
+		layer[key] = parsed.data;
+	}
+	return layer;
+}
+
+export interface SettingsSource {
+	name: string;
+	settings: SettingsLayer;
+}
+
+// The files and variables that set anything, lowest precedence first
+export async function readSettingsSources(
+	env = process.env,
+): Promise<SettingsSource[]> {
+	const files = [globalSettingsFile(), await findProjectSettingsFile()];
+	const sources: SettingsSource[] = [];
+	for (const file of files) {
+		if (!file) continue;
+		sources.push({
+			name: file,
+			settings: await readJsonConfig(file, SettingsLayerSchema),
+		});
+	}
+	sources.push({ name: "environment", settings: settingsFromEnvironment(env) });
+	return sources.filter((source) => Object.keys(source.settings).length > 0);
+}
+
+export async function loadSettings(env = process.env): Promise<Settings> {
+	const sources = await readSettingsSources(env);
+	const parsed = SettingsSchema.safeParse(
+		Object.assign({}, ...sources.map((source) => source.settings)),
+	);
+	if (!parsed.success) {
+		throw new Error(`Invalid settings: ${formatIssues(parsed.error)}`);
+	}
+	return parsed.data;
+}
+
+// Defaults until the server has loaded the configuration
+let currentSettings: Settings = SettingsSchema.parse({});
+
+export function getSettings(): Settings {
+	return currentSettings;
+}
+
+export function setSettings(settings: Settings): void {
+	currentSettings = settings;
+}
+
+export function isToolEnabled(
+	name: string,
+	settings: Settings = currentSettings,
+): boolean {
+	const matches = (patterns: string[]) =>
+		patterns.some((pattern) => minimatch(name, pattern));
+	return (
+		(settings.enabledTools === undefined || matches(settings.enabledTools)) &&
+		!matches(settings.disabledTools)
+	);
+}
+
+// Call onChange shortly after approved.json or a settings file changes.
+// Editors often replace a file rather than write to it, so the directories
+// holding them are watched instead of the files.
+export async function watchConfigFiles(
+	onChange: () => void,
+	debounceMs = 200,
+): Promise<{ close(): void }> {
+	const projectFile =
+		(await findProjectSettingsFile()) ??
+		path.join(process.cwd(), PROJECT_SETTINGS_FILE);
+	const files = [CONFIG_FILE, globalSettingsFile(), projectFile];
+	const watchers: FSWatcher[] = [];
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	for (const dir of new Set(files.map((file) => path.dirname(file)))) {
+		try {
+			const watcher = watch(dir, (_event, filename) => {
+				if (filename && !files.includes(path.join(dir, filename.toString()))) {
+					return;
+				}
+				clearTimeout(timer);
+				timer = setTimeout(onChange, debounceMs);
+			});
+			watcher.on("error", (error) => {
+				console.error(`Stopped watching ${dir} for config changes:`, error);
+				watcher.close();
+			});
+			watchers.push(watcher);
+		} catch (error) {
+			console.error(`Could not watch ${dir} for config changes:`, error);
+		}
+	}
+
+	return {
+		close() {
+			clearTimeout(timer);
+			for (const watcher of watchers) watcher.close();
+		},
+	};
+}
@@ -0,0 +1,48 @@
+import { cp, lstat, rename, rm } from "node:fs/promises";
+
+export async function pathExists(filePath: string): Promise<boolean> {
+	return (await lstat(filePath).catch(() => null)) !== null;
+}
+
+// Copy a file, directory or symlink with its permissions and timestamps.
+// Symlinks inside a directory are copied as links. The destination must not
+// exist, and a failed copy removes what it created there, but never something
+// that appeared at the destination meanwhile.
+export async function copyPath(
+	source: string,
+	destination: string,
+): Promise<void> {
+	if (await pathExists(destination)) {
+		throw new Error(`Destination already exists: ${destination}`);
+	}
+	try {
+		await cp(source, destination, {
+			recursive: true,
+			preserveTimestamps: true,
+			verbatimSymlinks: true,
+			errorOnExist: true,
+			force: false,
+		});
+	} catch (error) {
+		const code = (error as NodeJS.ErrnoException).code;
+		if (code !== "ERR_FS_CP_EEXIST" && code !== "EEXIST") {
+			await rm(destination, { recursive: true, force: true });
+		}
+		throw error;
+	}
+}
+
+// rename() cannot cross file systems, so then the item is copied and the
+// source removed once the copy is complete
+export async function movePath(
+	source: string,
+	destination: string,
+): Promise<void> {
+	try {
+		await rename(source, destination);
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code !== "EXDEV") throw error;
+		await copyPath(source, destination);
+		await rm(source, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,98 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { CONFIG_DIR } from "./config";
+import { movePath, pathExists } from "./transfer";
+
+// One deleted file or directory. The item itself is kept in files/ and this
+// record beside it in info/, both under the same name.
+export interface TrashItem {
+	name: string;
+	originalPath: string;
+	deletedAt: string;
+}
+
+export class Trash {
+	private filesDir: string;
+	private infoDir: string;
+
+	constructor(trashDir: string) {
+		this.filesDir = path.join(trashDir, "files");
+		this.infoDir = path.join(trashDir, "info");
+	}
+
+	// Move an item into the trash, returning where it is kept
+	async put(itemPath: string): Promise<string> {
+		await mkdir(this.filesDir, { recursive: true });
+		await mkdir(this.infoDir, { recursive: true });
+		const name = `${path.basename(itemPath)}.${randomUUID().slice(0, 8)}`;
+		const item: TrashItem = {
+			name,
+			originalPath: itemPath,
+			deletedAt: new Date().toISOString(),
+		};
+		const infoPath = path.join(this.infoDir, `${name}.json`);
+		await writeFile(infoPath, JSON.stringify(item, null, 2));
+		const trashPath = path.join(this.filesDir, name);
+		try {
+			await movePath(itemPath, trashPath);
+		} catch (error) {
+			await rm(infoPath, { force: true });
+			throw error;
+		}
+		return trashPath;
+	}
+
+	// Refuses to replace anything created at the original path since, which
+	// rename() would otherwise do silently
+	async restore(trashPath: string, originalPath: string): Promise<void> {
+		if (await pathExists(originalPath)) {
+			throw new Error(
+				`Cannot restore ${originalPath} from the trash: something else now exists there`,
+			);
+		}
+		await mkdir(path.dirname(originalPath), { recursive: true });
+		await movePath(trashPath, originalPath);
+		await rm(path.join(this.infoDir, `${path.basename(trashPath)}.json`), {
+			force: true,
+		});
+	}
+
+	async items(): Promise<TrashItem[]> {
+		const names = await readdir(this.infoDir).catch(() => []);
+		const items: TrashItem[] = [];
+		for (const name of names) {
+			const item = await readFile(path.join(this.infoDir, name), "utf-8")
+				.then((text) => JSON.parse(text) as TrashItem)
+				.catch(() => null);
+			if (item) items.push(item);
+		}
+		return items.sort((a, b) => a.deletedAt.localeCompare(b.deletedAt));
+	}
+
+	// Permanently remove items deleted before the cutoff, or all of them
+	async empty(deletedBefore?: Date): Promise<TrashItem[]> {
+		const removed: TrashItem[] = [];
+		for (const item of await this.items()) {
+			if (deletedBefore && new Date(item.deletedAt) >= deletedBefore) {
+				continue;
+			}
+			await rm(path.join(this.filesDir, item.name), {
+				recursive: true,
+				force: true,
+			});
+			await rm(path.join(this.infoDir, `${item.name}.json`), { force: true });
+			removed.push(item);
+		}
+		return removed;
+	}
+}
+
+let sharedTrash: Trash | undefined;
+
+export function getTrash(): Trash {
+	if (!sharedTrash) {
+		sharedTrash = new Trash(path.join(CONFIG_DIR, "trash"));
+	}
+	return sharedTrash;
+}
@@ -0,0 +1,268 @@
+import type { Dirent } from "node:fs";
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+import { ToolSchema } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { type AllowedDirectory, isExcluded, validatePath } from "./fs";
+import { IgnoreRules } from "./ignore";
+
+const ToolInputSchema = ToolSchema.shape.inputSchema;
+type ToolInput = z.infer<typeof ToolInputSchema>;
+const ToolOutputSchema = ToolSchema.shape.outputSchema.unwrap();
+type ToolOutput = z.infer<typeof ToolOutputSchema>;
+
+// Schema definitions
+export const DirectoryTreeArgsSchema = z.object({
+	path: z.string(),
+	depth: z
+		.number()
+		.int()
+		.positive()
+		.max(20)
+		.default(3)
+		.describe("How many levels below path to expand"),
+	maxEntries: z
+		.number()
+		.int()
+		.positive()
+		.default(50)
+		.describe(
+			"Directories with more entries than this list only the first ones and a count of the rest",
+		),
+	excludePatterns: z.array(z.string()).optional().default([]),
+	respectIgnoreFiles: z
+		.boolean()
+		.default(true)
+		.describe(
+			"Skip .git, node_modules and anything matched by .gitignore or .semanticignore",
+		),
+});
+
+const TreeNodeSchema: z.ZodType<TreeNode> = z.lazy(() =>
+	z.object({
+		name: z.string(),
+		isDirectory: z.boolean(),
+		size: z.number().optional(),
+		childCount: z.number().optional(),
+		children: z.array(TreeNodeSchema).optional(),
+		hiddenFiles: z.number().optional(),
+		hiddenDirectories: z.number().optional(),
+	}),
+);
+
+export const DirectoryTreeResultSchema = z.object({
+	root: TreeNodeSchema,
+	incomplete: z.boolean(),
+});
+
+// The whole tree is cut off after this many entries, however deep or wide
+const MAX_TREE_ENTRIES = 2000;
+
+export interface TreeNode {
+	name: string;
+	isDirectory: boolean;
+	size?: number;
+	// Directories only: entries after ignore rules, and the ones not listed
+	childCount?: number;
+	children?: TreeNode[];
+	hiddenFiles?: number;
+	hiddenDirectories?: number;
+}
+
+export interface TreeOptions {
+	depth: number;
+	maxEntries: number;
+	excludePatterns?: string[];
+	respectIgnoreFiles?: boolean;
+}
+
+export interface DirectoryTree {
+	root: TreeNode;
+	// Set when MAX_TREE_ENTRIES was reached before the walk finished
+	incomplete: boolean;
+}
+
+export async function buildTree(
+	rootPath: string,
+	allowedDirectories: AllowedDirectory[],
+	options: TreeOptions,
+): Promise<DirectoryTree> {
+	const ignoreRules =
+		(options.respectIgnoreFiles ?? true)
+			? await IgnoreRules.forRoot(rootPath)
+			: undefined;
+	let remaining = MAX_TREE_ENTRIES;
+	let incomplete = false;
+
+	// Entries the caller may see, directories first and then by name
+	async function listEntries(dirPath: string): Promise<Dirent[]> {
+		const entries = await readdir(dirPath, { withFileTypes: true });
+		const visible: Dirent[] = [];
+		for (const entry of entries) {
+			const fullPath = path.join(dirPath, entry.name);
+			if (
+				isExcluded(
+					path.relative(rootPath, fullPath),
+					options.excludePatterns ?? [],
+				)
+			) {
+				continue;
+			}
+			if (await ignoreRules?.ignores(fullPath, entry.isDirectory())) continue;
+			try {
+				await validatePath(fullPath, allowedDirectories);
+			} catch {
+				continue;
+			}
+			visible.push(entry);
+		}
+		return visible.sort(
+			(a, b) =>
+				Number(b.isDirectory()) - Number(a.isDirectory()) ||
+				(a.name < b.name ? -1 : a.name > b.name ? 1 : 0),
+		);
+	}
+
+	async function visit(dirPath: string, node: TreeNode, depth: number) {
+		const entries = await listEntries(dirPath);
+		node.childCount = entries.length;
+		if (depth === 0 || entries.length === 0) return;
+
+		const shown = entries.slice(0, Math.min(options.maxEntries, remaining));
+		if (shown.length < entries.length) {
+			if (shown.length < options.maxEntries) incomplete = true;
+			const hidden = entries.slice(shown.length);
+			node.hiddenDirectories = hidden.filter((e) => e.isDirectory()).length;
+			node.hiddenFiles = hidden.length - node.hiddenDirectories;
+		}
+		remaining -= shown.length;
+
+		node.children = [];
+		for (const entry of shown) {
+			const fullPath = path.join(dirPath, entry.name);
+			// Symlinked directories are listed but not followed, which also
+			// keeps link cycles from being walked
+			const child: TreeNode = {
+				name: entry.name,
+				isDirectory: entry.isDirectory(),
+			};
+			if (entry.isDirectory()) {
+				await visit(fullPath, child, depth - 1);
+			} else {
+				const stats = await stat(fullPath).catch(() => null);
+				if (stats?.isFile()) child.size = stats.size;
+			}
+			node.children.push(child);
+		}
+	}
+
+	const root: TreeNode = { name: rootPath, isDirectory: true };
+	await visit(rootPath, root, options.depth);
+	return { root, incomplete };
+}
+
+export function formatSize(bytes: number): string {
+	const units = ["B", "KB", "MB", "GB", "TB"];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+function plural(count: number, word: string, words = `${word}s`): string {
+	return `${count} ${count === 1 ? word : words}`;
+}
+
+function describeNode(node: TreeNode): string {
+	if (!node.isDirectory) {
+		return node.size === undefined
+			? node.name
+			: `${node.name} (${formatSize(node.size)})`;
+	}
+	const count = plural(node.childCount ?? 0, "entry", "entries");
+	const notShown = node.childCount && !node.children ? ", not expanded" : "";
+	return `${node.name}/ (${count}${notShown})`;
+}
+
+export function formatTree(tree: DirectoryTree): string {
+	const lines = [describeNode(tree.root)];
+
+	function render(node: TreeNode, prefix: string) {
+		const children = node.children ?? [];
+		const hidden = (node.hiddenFiles ?? 0) + (node.hiddenDirectories ?? 0);
+		children.forEach((child, i) => {
+			const last = i === children.length - 1 && hidden === 0;
+			lines.push(`${prefix}${last ? "└── " : "├── "}${describeNode(child)}`);
+			render(child, `${prefix}${last ? "    " : "│   "}`);
+		});
+		if (hidden > 0) {
+			lines.push(
+				`${prefix}└── … ${hidden} more (${plural(node.hiddenDirectories ?? 0, "directory", "directories")}, ${plural(node.hiddenFiles ?? 0, "file")})`,
+			);
+		}
+	}
+
+	render(tree.root, "");
+	if (tree.incomplete) {
+		lines.push(
+			`[Stopped after ${MAX_TREE_ENTRIES} entries; use a narrower path or a smaller depth]`,
+		);
+	}
+	return lines.join("\n");
+}
+
+// Tool definitions
+export const tools = [
+	{
+		name: "fs_directory_tree",
+		description:
+			"Show the layout of a directory as an indented tree, expanding " +
+			"subdirectories up to 'depth' levels. Files are shown with their size and " +
+			"directories with how many entries they contain. Directories with more " +
+			"than 'maxEntries' entries list only the first ones and summarize the " +
+			"rest. Skips .git, node_modules and anything ignored by .gitignore or " +
+			".semanticignore unless respectIgnoreFiles is false. Prefer this over " +
+			"repeated fs_list_directory calls to understand a project. Only works " +
+			"within allowed directories.",
+		inputSchema: zodToJsonSchema(DirectoryTreeArgsSchema) as ToolInput,
+		outputSchema: zodToJsonSchema(DirectoryTreeResultSchema) as ToolOutput,
+	},
+];
+
+// Tool handlers
+export async function handleTool(
+	name: string,
+	args: Record<string, unknown> | undefined,
+	allowedDirectories: AllowedDirectory[],
+) {
+	switch (name) {
+		case "fs_directory_tree": {
+			const parsed = DirectoryTreeArgsSchema.safeParse(args);
+			if (!parsed.success) {
+				throw new Error(
+					`Invalid arguments for directory_tree: ${parsed.error}`,
+				);
+			}
+			const validPath = await validatePath(
+				parsed.data.path,
+				allowedDirectories,
+			);
+			const stats = await stat(validPath);
+			if (!stats.isDirectory()) {
+				throw new Error(`Not a directory: ${parsed.data.path}`);
+			}
+			const tree = await buildTree(validPath, allowedDirectories, parsed.data);
+			return {
+				content: [{ type: "text", text: formatTree(tree) }],
+				structuredContent: tree,
+			};
+		}
+
+		default:
+			return null;
+	}
+}